@@ -0,0 +1,52 @@
+// App-shell service worker. Built into dist/sw.js by the precache plugin in
+// vite.config.ts, which replaces the two placeholders below.
+const CACHE = 'nsw-holo-__CACHE_VERSION__'
+const PRECACHE = __PRECACHE_MANIFEST__
+
+const scoped = (path) => new URL(path, self.registration.scope).href
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE)
+      .then((cache) => cache.addAll(PRECACHE.map(scoped)))
+      .then(() => self.skipWaiting())
+  )
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((k) => k.startsWith('nsw-holo-') && k !== CACHE).map((k) => caches.delete(k))))
+      .then(() => self.clients.claim())
+  )
+})
+
+// Cache first: the shell is versioned by content hash, so a new build installs
+// a new cache. Navigations always get the shell so deep links open offline.
+// Bundled files that weren't precached (lazy chunks such as the playground's
+// compiler) are added to the cache the first time they're fetched.
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      caches.match(scoped('./index.html')).then((shell) => shell || fetch(request))
+    )
+    return
+  }
+  event.respondWith(
+    caches.match(request).then(
+      (hit) =>
+        hit ||
+        fetch(request).then((response) => {
+          if (response.ok && request.url.startsWith(scoped('./assets/'))) {
+            const copy = response.clone()
+            event.waitUntil(caches.open(CACHE).then((cache) => cache.put(request, copy)))
+          }
+          return response
+        })
+    )
+  )
+})
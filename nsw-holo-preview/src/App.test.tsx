@@ -0,0 +1,375 @@
+import React from "react";
+import { act, fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import App, { DigitalLicence } from "./App";
+import type { CardRenderControl } from "./cardSnapshot";
+import { CredentialServiceError } from "./credentialService";
+import { SAMPLE_LICENCES, type LicenceData } from "./licence";
+import { installWebGLStub } from "./test/webglStub";
+
+let stub: ReturnType<typeof installWebGLStub>;
+
+beforeEach(() => {
+  stub = installWebGLStub();
+  // jsdom has no layout; give the card a real box so pointer maths works
+  vi.spyOn(HTMLElement.prototype, "getBoundingClientRect").mockReturnValue({
+    left: 0, top: 0, right: 400, bottom: 800, width: 400, height: 800, x: 0, y: 0, toJSON: () => ({}),
+  } as DOMRect);
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  delete (window as any).ontouchstart;
+  delete (window as any).DeviceOrientationEvent;
+});
+
+const card = () => screen.getByLabelText(/Licence card/);
+
+describe("DigitalLicence", () => {
+  it("renders the holder from licence data", () => {
+    render(<DigitalLicence licence={SAMPLE_LICENCES.multiClass} />);
+    expect(screen.getByText("NGATA")).toBeTruthy();
+    expect(screen.getByText("C, R, MR")).toBeTruthy();
+  });
+
+  it("shows the status treatment for suspended and expiring licences", () => {
+    const { rerender } = render(<DigitalLicence licence={SAMPLE_LICENCES.suspended} />);
+    expect(screen.getByRole("status").textContent).toContain("SUSPENDED");
+    expect(stub.contexts[0].uniforms.u_saturation).toEqual([0]);
+
+    rerender(<DigitalLicence licence={SAMPLE_LICENCES.expiringSoon} />);
+    expect(screen.getByRole("status").textContent).toBe("Expires in 12 days");
+    expect(stub.contexts[0].uniforms.u_saturation[0]).toBeCloseTo(0.95);
+  });
+
+  it("expires an open card at Sydney midnight on its expiry day", () => {
+    vi.useFakeTimers({ toFake: ["Date", "setTimeout", "clearTimeout"] });
+    try {
+      vi.setSystemTime(new Date("2030-07-13T13:59:00Z"));
+      render(<DigitalLicence licence={{ ...SAMPLE_LICENCES.trevor, expiry: "2030-07-13" }} />);
+      expect(screen.getByRole("status").textContent).toBe("Expires today");
+      act(() => vi.advanceTimersByTime(2 * 60_000));
+      expect(screen.getByRole("status").textContent).toContain("EXPIRED");
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("themes the card from the credential type", () => {
+    const { rerender } = render(<DigitalLicence licence={SAMPLE_LICENCES.p1} />);
+    expect(screen.getByRole("heading", { level: 1 }).textContent).toBe("NSW Provisional P1 Licence");
+    expect(screen.getByLabelText("Provisional P1 plate").textContent).toBe("P");
+    expect(stub.contexts[0].uniforms.u_tint[3]).toBeCloseTo(0.4);
+
+    rerender(<DigitalLicence licence={SAMPLE_LICENCES.photoCard} />);
+    expect(screen.getByRole("heading", { level: 1 }).textContent).toBe("NSW Photo Card");
+    expect(screen.getByText("PHOTO CARD NUMBER")).toBeTruthy();
+    expect(screen.queryByText("CLASS HISTORY")).toBeNull();
+  });
+
+  it("wires the header chevron and menu actions", async () => {
+    const onBack = vi.fn();
+    const onCredential = vi.fn();
+    render(<DigitalLicence licence={SAMPLE_LICENCES.trevor} onBack={onBack} onCredential={onCredential} />);
+    fireEvent.click(screen.getByRole("button", { name: "Back" }));
+    expect(onBack).toHaveBeenCalledTimes(1);
+
+    await waitFor(() => expect(onCredential).toHaveBeenCalledTimes(1));
+    fireEvent.click(screen.getByRole("button", { name: "More options" }));
+    expect(screen.queryByRole("menuitem", { name: "Share" })).toBeNull();
+    fireEvent.click(screen.getByRole("menuitem", { name: "Refresh" }));
+    await waitFor(() => expect(onCredential).toHaveBeenCalledTimes(2));
+  });
+
+  it("keeps the card's details out of an age proof", () => {
+    const { container } = render(<DigitalLicence licence={SAMPLE_LICENCES.trevor} />);
+    fireEvent.click(screen.getByRole("button", { name: "More options" }));
+    fireEvent.click(screen.getByRole("menuitem", { name: "Details" }));
+    fireEvent.click(screen.getByRole("button", { name: "More options" }));
+    fireEvent.click(screen.getByRole("menuitemradio", { name: "Prove I'm over 18" }));
+
+    expect(container.querySelector(".card-flipper.is-flipped")).toBeNull();
+    expect(screen.queryByText("2012345678")).toBeNull();
+    expect(screen.queryByText("CARD NUMBER")).toBeNull();
+    fireEvent.click(screen.getByRole("button", { name: "More options" }));
+    expect(screen.queryByRole("menuitem", { name: /details/i })).toBeNull();
+  });
+
+  it("refreshes through the credential service on pull, and reports offline", async () => {
+    const service = { refresh: vi.fn(async (l: LicenceData) => ({ ...l, refreshedAt: new Date().toISOString() })) };
+    render(<DigitalLicence licence={SAMPLE_LICENCES.trevor} credentialService={service} />);
+    const pullDown = () => {
+      const touch = { pointerType: "touch", pointerId: 1 };
+      fireEvent(card(), new PointerEvent("pointerdown", { ...touch, clientX: 200, clientY: 100 }));
+      fireEvent(card(), new PointerEvent("pointermove", { ...touch, clientX: 205, clientY: 200 }));
+      expect(screen.getByText("Release to refresh")).toBeTruthy();
+      fireEvent(card(), new PointerEvent("pointerup", { ...touch, clientX: 205, clientY: 200 }));
+    };
+
+    pullDown();
+    expect(service.refresh).toHaveBeenCalledTimes(1);
+    expect(await screen.findByText("Refreshed just now")).toBeTruthy();
+
+    service.refresh.mockRejectedValueOnce(new CredentialServiceError("down"));
+    pullDown();
+    expect(await screen.findByText("Offline, last refreshed just now")).toBeTruthy();
+  });
+
+  it("only pulls with touch at the top of the screen, without tilting", async () => {
+    const service = { refresh: vi.fn(async (l: LicenceData) => l) };
+    const { container } = render(<DigitalLicence licence={SAMPLE_LICENCES.trevor} credentialService={service} />);
+    const [gl] = stub.contexts;
+    const drag = (pointerType: string) => {
+      fireEvent(card(), new PointerEvent("pointerdown", { pointerType, pointerId: 2, clientX: 200, clientY: 100 }));
+      fireEvent(card(), new PointerEvent("pointermove", { pointerType, pointerId: 2, clientX: 205, clientY: 300 }));
+    };
+    const release = () => fireEvent(card(), new PointerEvent("pointerup", { pointerType: "touch", pointerId: 2 }));
+
+    // A mouse drag on desktop is just tilt
+    drag("mouse");
+    expect(screen.queryByText("Release to refresh")).toBeNull();
+    fireEvent(card(), new PointerEvent("pointerup", { pointerType: "mouse", pointerId: 2 }));
+
+    // Scrolled down, the drag scrolls the screen back up
+    const screenEl = container.querySelector(".device-screen") as HTMLElement;
+    Object.defineProperty(screenEl, "scrollTop", { configurable: true, value: 120 });
+    fireEvent.scroll(screenEl);
+    expect(card().style.touchAction).toBe("");
+    drag("touch");
+    expect(screen.queryByText("Release to refresh")).toBeNull();
+    release();
+
+    Object.defineProperty(screenEl, "scrollTop", { configurable: true, value: 0 });
+    fireEvent.scroll(screenEl);
+    expect(card().style.touchAction).toBe("pan-down");
+    drag("touch");
+    expect(screen.getByText("Release to refresh")).toBeTruthy();
+    // The downward drag would tilt the card right back; the pull holds it level
+    await new Promise((r) => setTimeout(r, 100));
+    expect(gl.uniforms.u_tilt[1]).toBeCloseTo(0.5, 2);
+    release();
+    expect(service.refresh).toHaveBeenCalledTimes(1);
+  });
+
+  it("exposes the fields, portrait and badges to assistive tech", () => {
+    render(<DigitalLicence licence={SAMPLE_LICENCES.multiClass} />);
+    const terms = screen.getAllByRole("term").map((dt) => dt.textContent!.trim());
+    expect(terms).toEqual(expect.arrayContaining(["EXPIRY", "DATE OF BIRTH", "CLASS", "CONDITIONS", "ADDRESS"]));
+    // One wrapping div at most between a dl and its dt/dd, or the pairing is lost
+    for (const dt of screen.getAllByRole("term")) {
+      expect(dt.parentElement!.tagName).toBe("DIV");
+      expect(dt.parentElement!.parentElement!.tagName).toBe("DL");
+    }
+    expect(screen.getByRole("img", { name: "Verified by NSW Government" })).toBeTruthy();
+    expect(screen.getByRole("img", { name: /^(Photo of|No photo on file for) / })).toBeTruthy();
+    expect(card().getAttribute("aria-describedby")).toBeTruthy();
+    expect(document.querySelector(".holo-canvas")!.getAttribute("aria-hidden")).toBe("true");
+  });
+
+  it("tilts the hologram from the keyboard", async () => {
+    render(<DigitalLicence licence={SAMPLE_LICENCES.trevor} />);
+    const [gl] = stub.contexts;
+    for (let i = 0; i < 5; i++) fireEvent.keyDown(card(), { key: "ArrowRight" });
+    await waitFor(() => expect(gl.uniforms.u_tilt?.[0]).toBeGreaterThan(0.6), { timeout: 3000 });
+  });
+
+  it("holds a static, level hologram with reduced motion", async () => {
+    const { container } = render(<DigitalLicence licence={SAMPLE_LICENCES.trevor} ambient reducedMotion />);
+    const [gl] = stub.contexts;
+    expect(container.firstElementChild!.classList).toContain("reduce-motion");
+    fireEvent(card(), new PointerEvent("pointermove", { pointerType: "mouse", clientX: 400, clientY: 0 }));
+    fireEvent.keyDown(card(), { key: "ArrowLeft" });
+    await new Promise((r) => setTimeout(r, 100));
+    expect(gl.uniforms.u_tilt).toEqual([0.5, 0.5]);
+  });
+
+  it("switches to black text in high contrast", () => {
+    const { container } = render(<DigitalLicence licence={SAMPLE_LICENCES.p1} highContrast />);
+    expect(container.firstElementChild!.classList).toContain("high-contrast");
+    expect(screen.getByRole("heading", { level: 2 }).className).toContain("text-black");
+  });
+
+  it("drives the hologram tilt from the mouse", async () => {
+    render(<DigitalLicence licence={SAMPLE_LICENCES.trevor} />);
+    const [gl] = stub.contexts;
+    expect(gl.kind).toBe("webgl2");
+
+    fireEvent(card(), new PointerEvent("pointermove", { pointerType: "mouse", clientX: 400, clientY: 400 }));
+    await waitFor(() => expect(gl.uniforms.u_tilt?.[0]).toBeGreaterThan(0.85), { timeout: 3000 });
+    expect(gl.uniforms.u_tilt[1]).toBeCloseTo(0.5, 1);
+  });
+
+  it("holds a frozen tilt regardless of input", async () => {
+    let control: CardRenderControl | null = null;
+    render(<DigitalLicence licence={SAMPLE_LICENCES.trevor} ambient onRenderControl={(c) => (control = c)} />);
+    const [gl] = stub.contexts;
+
+    act(() => control!.freeze({ x: 20, y: 70 }));
+    expect(gl.uniforms.u_tilt).toEqual([0.2, 0.7]);
+    fireEvent(card(), new PointerEvent("pointermove", { pointerType: "mouse", clientX: 400, clientY: 0 }));
+    await new Promise((r) => setTimeout(r, 100));
+    expect(gl.uniforms.u_tilt).toEqual([0.2, 0.7]);
+
+    act(() => control!.freeze(null));
+    await waitFor(() => expect(gl.uniforms.u_tilt[0]).toBeGreaterThan(0.5), { timeout: 3000 });
+  });
+
+  it("falls back to the Canvas2D hologram when shaders fail", () => {
+    stub.restore();
+    stub = installWebGLStub({ compileError: "bad shader" });
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const { container } = render(<DigitalLicence licence={SAMPLE_LICENCES.trevor} />);
+    expect(container.querySelector('[data-hologram="canvas2d"]')).not.toBeNull();
+    expect(error.mock.calls.some((args) => String(args[0]).includes("bad shader"))).toBe(true);
+    expect(screen.getByText("LONG")).toBeTruthy();
+  });
+
+  describe("on touch devices", () => {
+    const listenForOrientation = () => vi.spyOn(window, "addEventListener");
+    const orientationListeners = (spy: ReturnType<typeof listenForOrientation>) =>
+      spy.mock.calls.filter(([type]) => type === "deviceorientation");
+
+    beforeEach(() => {
+      (window as any).ontouchstart = null;
+    });
+
+    it("shows the hint until tapped, then listens to device orientation", async () => {
+      const requestPermission = vi.fn().mockResolvedValue("granted");
+      (window as any).DeviceOrientationEvent = Object.assign(function () {}, { requestPermission });
+      const spy = listenForOrientation();
+      render(<DigitalLicence licence={SAMPLE_LICENCES.trevor} />);
+
+      expect(screen.getByText("Tap card to enable tilt effect")).toBeTruthy();
+      await act(async () => {
+        fireEvent.click(card());
+      });
+      expect(screen.queryByText("Tap card to enable tilt effect")).toBeNull();
+      expect(requestPermission).toHaveBeenCalledOnce();
+      expect(orientationListeners(spy)).toHaveLength(1);
+    });
+
+    it("keeps working without orientation when permission is denied", async () => {
+      const requestPermission = vi.fn().mockResolvedValue("denied");
+      (window as any).DeviceOrientationEvent = Object.assign(function () {}, { requestPermission });
+      const spy = listenForOrientation();
+      render(<DigitalLicence licence={SAMPLE_LICENCES.trevor} />);
+
+      await act(async () => {
+        fireEvent.click(card());
+      });
+      expect(screen.queryByText("Tap card to enable tilt effect")).toBeNull();
+      expect(orientationListeners(spy)).toHaveLength(0);
+
+      // Touch drag still tilts the hologram
+      const [gl] = stub.contexts;
+      fireEvent(card(), new PointerEvent("pointerdown", { pointerType: "touch", pointerId: 7, clientX: 200, clientY: 400 }));
+      fireEvent(card(), new PointerEvent("pointermove", { pointerType: "touch", pointerId: 7, clientX: 100, clientY: 400 }));
+      await waitFor(() => expect(gl.uniforms.u_tilt?.[0]).toBeLessThan(0.4), { timeout: 3000 });
+    });
+  });
+});
+
+describe("App routing", () => {
+  afterEach(() => window.history.replaceState(null, "", "/"));
+
+  it("opens deep links straight to a card and goes back to the wallet", async () => {
+    window.history.replaceState(null, "", "/#/licence/boat");
+    render(<App />);
+    expect(screen.getByRole("heading", { name: "NSW Boat Licence" })).toBeTruthy();
+
+    // Nothing in-app to pop: back replaces the deep link with the wallet
+    fireEvent.click(screen.getByRole("button", { name: "Back" }));
+    expect(screen.getByRole("heading", { name: "Wallet" })).toBeTruthy();
+    expect(window.location.hash).toBe("#/");
+
+    fireEvent.click(screen.getByRole("link", { name: /RSA Competency Card/ }));
+    expect(screen.getByRole("heading", { name: "NSW RSA Competency Card" })).toBeTruthy();
+    expect(window.location.hash).toBe("#/licence/rsa");
+  });
+});
+
+describe("App device preview", () => {
+  afterEach(() => window.history.replaceState(null, "", "/"));
+
+  it("lays the card out on the chosen device, rotated and at a simulated DPR", () => {
+    render(<App />);
+    fireEvent.change(screen.getByLabelText("Device"), { target: { value: "iphone-se" } });
+    fireEvent.click(screen.getByRole("button", { name: "landscape" }));
+    fireEvent.change(screen.getByLabelText("DPR"), { target: { value: "3" } });
+    expect(screen.getByText("iPhone SE · 667×375 @3x")).toBeTruthy();
+    const [frame] = screen.getAllByTestId("device-screen");
+    expect(frame.style.width).toBe("667px");
+    expect(frame.style.height).toBe("375px");
+  });
+
+  it("scales the page's text like the browser setting", () => {
+    const { unmount } = render(<App />);
+    fireEvent.change(screen.getByLabelText("Text size"), { target: { value: "2" } });
+    expect(document.documentElement.style.fontSize).toBe("200%");
+    unmount();
+    expect(document.documentElement.style.fontSize).toBe("");
+  });
+
+  it("renders the compared devices side by side with one shared tilt", async () => {
+    window.history.replaceState(null, "", "/#/licence/driver");
+    render(<App />);
+    fireEvent.click(screen.getByLabelText(/Side by side/));
+    expect(screen.getAllByTestId("device-screen")).toHaveLength(3);
+
+    const cards = screen.getAllByLabelText(/Licence card/);
+    const live = () => stub.contexts.filter((gl) => !gl.lost && gl.canvas.isConnected);
+    fireEvent(cards[1], new PointerEvent("pointermove", { pointerType: "mouse", clientX: 400, clientY: 400 }));
+    await waitFor(() => expect(live().every((gl) => gl.uniforms.u_tilt?.[0] > 0.85)).toBe(true), { timeout: 3000 });
+    expect(live()).toHaveLength(3);
+  });
+});
+
+describe("App playground", () => {
+  afterEach(() => localStorage.clear());
+
+  const edit = (source: string) => fireEvent.change(screen.getByLabelText("Component source"), { target: { value: source } });
+
+  it("renders the snippet in place of the card and contains its errors", async () => {
+    render(<App />);
+    fireEvent.click(screen.getByRole("button", { name: "playground" }));
+    // The starter snippet renders the card for the picked sample
+    expect(await screen.findByRole("heading", { name: "NSW Driver Licence" }, { timeout: 10000 })).toBeTruthy();
+
+    edit("export default function Broken() {\n  return <div>;\n}");
+    expect(await screen.findByLabelText("Compile errors")).toBeTruthy();
+    // The last good render stays up while the source doesn't compile
+    expect(screen.getByRole("heading", { name: "NSW Driver Licence" })).toBeTruthy();
+
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    edit('export default function Throws(): JSX.Element {\n  throw new Error("boom");\n}');
+    expect((await screen.findByRole("alert")).textContent).toContain("Error: boom");
+    expect(screen.queryByLabelText("Compile errors")).toBeNull();
+
+    edit('export default () => <p>Hello</p>;');
+    expect(await screen.findByText("Hello")).toBeTruthy();
+    expect(localStorage.getItem("nsw-holo.playground")).toBe("export default () => <p>Hello</p>;");
+  });
+});
+
+describe("App import", () => {
+  // jsdom's File has no arrayBuffer()
+  const file = (name: string, text: string) =>
+    Object.assign(new File([text], name), { arrayBuffer: async () => new TextEncoder().encode(text).buffer });
+  const drop = (f: File) =>
+    fireEvent.drop(screen.getByRole("region", { name: "Preview" }), { dataTransfer: { files: [f], types: ["Files"] } });
+
+  it("shows a dropped record and explains a bad one", async () => {
+    render(<App />);
+    const record = { ...SAMPLE_LICENCES.trevor, givenNames: "Imogen", familyName: "PORT" };
+    drop(file("record.json", JSON.stringify(record)));
+    expect(await screen.findByRole("option", { name: "Imported: Imogen PORT" })).toBeTruthy();
+    expect(screen.getByRole("status").textContent).toContain("from record.json");
+    expect(screen.getByRole("link", { name: /Driver Licence/ })).toBeTruthy();
+
+    fireEvent.change(screen.getByLabelText("Licence file"), { target: { files: [file("broken.mdoc", "\xa1")] } });
+    expect((await screen.findByRole("alert")).textContent).toMatch(/^broken\.mdoc: Not a valid CBOR mdoc/);
+    // The last good import stays on screen
+    expect(screen.getByRole("option", { name: "Imported: Imogen PORT" })).toBeTruthy();
+  });
+});
@@ -1,58 +1,61 @@
 import React from "react";
+import {
+  DEFAULT_SENSITIVE_FIELDS,
+  SAMPLE_LICENCES,
+  formatConditions,
+  formatDaysLeft,
+  formatDayMonth,
+  formatLicenceDate,
+  ageClaims,
+  describeCondition,
+  licenceClaims,
+  licenceStatus,
+  nameSizeClass,
+  parseLicenceDate,
+  type LicenceData,
+  type LicenceStatus,
+  type SensitiveField,
+} from "./licence";
+import nswLogoUrl from "./assets/nsw-logo.svg";
+import { composeCard, type CardRenderControl, type Tilt } from "./cardSnapshot";
+import { getDevIssuer, signCredential, type TrustedIssuer } from "./credential";
+import { DEFAULT_MOCK_SERVICE, createMockCredentialService, type CredentialService } from "./credentialService";
+import { CredentialServicePanel } from "./CredentialServicePanel";
+import { credentialTheme } from "./credentialThemes";
+import { DevicePanel } from "./DevicePanel";
+import { DevicePreview } from "./DevicePreview";
+import { DEFAULT_DEVICE_SETTINGS, DEFAULT_VIEWPORT, previewScreens, type DeviceViewport } from "./deviceProfiles";
+import { DEFAULT_EMBLEM, loadEmblem } from "./emblem";
+import { ExportPanel } from "./ExportPanel";
+import { FramePerf } from "./framePerf";
+import { HologramLayer } from "./HologramLayer";
+import { HologramPanel } from "./HologramPanel";
+import { ImportPanel, readLicenceFile, useFileDrop, type ImportResult } from "./ImportPanel";
+import { DEFAULT_HOLOGRAM, type HologramParams } from "./hologramPresets";
+import { DEFAULT_MAX_DPR, type HologramSurface } from "./HologramRenderer";
+import { MotionPanel } from "./MotionPanel";
+import { PlaygroundEditor, SNIPPET_MODULES, SnippetPreview, useCompiledSnippet } from "./Playground";
+import { loadSnippet, saveSnippet } from "./playground";
+import {
+  DEFAULT_AMBIENT,
+  DEFAULT_SPRING,
+  ambientDrift,
+  isSpringAtRest,
+  stepSpring,
+  type AmbientConfig,
+  type SpringConfig,
+} from "./motion";
+import { TiltInput, TiltSync, clamp, type TiltCalibration } from "./tiltInput";
+import { PerfOverlay } from "./PerfOverlay";
+import { QrCode } from "./QrCode";
+import { RefreshStatus, usePullToRefresh, useSydneyDay, PULL_THRESHOLD, type RefreshState } from "./RefreshStatus";
+import { SensitiveValue, useReveal } from "./SensitiveValue";
+import { Verifier } from "./Verifier";
+import { Wallet, useHashRoute } from "./Wallet";
+import { routeHash, walletCredentials } from "./wallet";
 
-// ====== Small pure helpers (DEV-only tests live below) ======
-export const clamp = (value: number, min: number, max: number) =>
-  Math.min(Math.max(value, min), max);
-
-export function mapTiltToTarget(
-  gamma: number,
-  beta: number,
-  sensitivity = 1.6
-) {
-  // gamma ~ left/right (−90..90), beta ~ front/back (−180..180)
-  const x = clamp(50 + (gamma / 90) * 50 * sensitivity, 10, 90);
-  const y = clamp(50 + (beta / 90) * 50 * sensitivity, 10, 90);
-  return { x, y };
-}
-
-// ---- DEV-ONLY micro tests (guarded so they NEVER run in production) ----
-try {
-  // Avoid import.meta in non-module env; use globalThis to dodge TS Node types
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const isDev =
-    (typeof window !== "undefined" && (window as any).__DEV__ === true) ||
-    ((globalThis as any)?.process?.env?.NODE_ENV !== "production");
-
-  if (isDev) {
-    (function devTests() {
-      console.assert(clamp(5, 0, 10) === 5, "clamp pass-through");
-      console.assert(clamp(-1, 0, 10) === 0, "clamp lower-bound");
-      console.assert(clamp(15, 0, 10) === 10, "clamp upper-bound");
-      const mid = mapTiltToTarget(0, 0, 1.6);
-      console.assert(
-        Math.abs(mid.x - 50) < 1e-6 && Math.abs(mid.y - 50) < 1e-6,
-        "map tilt center"
-      );
-      const right = mapTiltToTarget(90, 0, 1.0);
-      console.assert(right.x <= 90 && right.x >= 80, "map tilt right in range");
-      const up = mapTiltToTarget(0, 90, 1.0);
-      console.assert(up.y <= 90 && up.y >= 80, "map tilt up in range");
-      const leftDown = mapTiltToTarget(-90, -90, 1.0);
-      console.assert(
-        leftDown.x >= 10 && leftDown.x <= 20,
-        "map tilt left clamped >=10"
-      );
-      console.assert(
-        leftDown.y >= 10 && leftDown.y <= 20,
-        "map tilt down clamped >=10"
-      );
-      console.assert(clamp(7, 7, 7) === 7, "clamp equal bounds");
-      console.debug("✅ Dev tests passed");
-    })();
-  }
-} catch {
-  /* ignore in prod */
-}
+// ====== Small pure helpers (tested in tiltInput.test.ts) ======
+export { clamp, mapTiltToTarget } from "./tiltInput";
 
 // ------- Tiny inline icon components (no external imports) -------
 function IconChevronLeft(props: { size?: number; className?: string; color?: string }) {
@@ -69,6 +72,8 @@ function IconChevronLeft(props: { size?: number; className?: string; color?: str
       strokeLinecap="round"
       strokeLinejoin="round"
       className={props.className}
+      aria-hidden="true"
+      focusable="false"
     >
       <polyline points="15 18 9 12 15 6" />
     </svg>
@@ -88,6 +93,8 @@ function IconMoreVertical(props: { size?: number; className?: string; color?: st
       strokeLinecap="round"
       strokeLinejoin="round"
       className={props.className}
+      aria-hidden="true"
+      focusable="false"
     >
       <circle cx="12" cy="5" r="1" />
       <circle cx="12" cy="12" r="1" />
@@ -109,6 +116,8 @@ function IconCheckCircle(props: { size?: number; className?: string; color?: str
       strokeLinecap="round"
       strokeLinejoin="round"
       className={props.className}
+      aria-hidden="true"
+      focusable="false"
     >
       <path d="M22 11.08V12a10 10 0 1 1-5.93-9.14" />
       <polyline points="22 4 12 14.01 9 11.01" />
@@ -129,6 +138,8 @@ function IconInfo(props: { size?: number; className?: string; color?: string })
       strokeLinecap="round"
       strokeLinejoin="round"
       className={props.className}
+      aria-hidden="true"
+      focusable="false"
     >
       <circle cx="12" cy="12" r="10" />
       <line x1="12" y1="16" x2="12" y2="12" />
@@ -137,402 +148,819 @@ function IconInfo(props: { size?: number; className?: string; color?: string })
   );
 }
 
-// ----------------- Hologram (raw WebGL, no three.js) -----------------
-function compileShader(gl: WebGLRenderingContext, type: number, source: string) {
-  const sh = gl.createShader(type)!;
-  gl.shaderSource(sh, source);
-  gl.compileShader(sh);
-  if (!gl.getShaderParameter(sh, gl.COMPILE_STATUS)) {
-    const info = gl.getShaderInfoLog(sh) || "unknown";
-    gl.deleteShader(sh);
-    throw new Error("Shader compile failed: " + info);
-  }
-  return sh;
+// ------- User preferences (prefers-reduced-motion, prefers-contrast) -------
+function useMediaQuery(query: string) {
+  const [matches, setMatches] = React.useState(() => typeof window !== "undefined" && !!window.matchMedia?.(query).matches);
+  React.useEffect(() => {
+    const mql = window.matchMedia?.(query);
+    if (!mql) return;
+    const onChange = () => setMatches(mql.matches);
+    onChange();
+    mql.addEventListener("change", onChange);
+    return () => mql.removeEventListener("change", onChange);
+  }, [query]);
+  return matches;
 }
-function createProgram(gl: WebGLRenderingContext, vs: string, fs: string) {
-  const prog = gl.createProgram()!;
-  const vsh = compileShader(gl, gl.VERTEX_SHADER, vs);
-  const fsh = compileShader(gl, gl.FRAGMENT_SHADER, fs);
-  gl.attachShader(prog, vsh);
-  gl.attachShader(prog, fsh);
-  gl.linkProgram(prog);
-  if (!gl.getProgramParameter(prog, gl.LINK_STATUS)) {
-    throw new Error("Program link failed: " + (gl.getProgramInfoLog(prog) || "unknown"));
-  }
-  gl.deleteShader(vsh);
-  gl.deleteShader(fsh);
-  return prog;
+
+// ------- Header overflow menu -------
+/** Items with `active` set render as a radio group; others are plain actions. */
+type MenuItem = { label: string; onSelect: () => void; active?: boolean };
+
+function OverflowMenu({ items }: { items: MenuItem[] }) {
+  const [open, setOpen] = React.useState(false);
+  const ref = React.useRef<HTMLDivElement | null>(null);
+
+  React.useEffect(() => {
+    if (!open) return;
+    const onDown = (ev: PointerEvent) => {
+      if (!ref.current?.contains(ev.target as Node)) setOpen(false);
+    };
+    const onKey = (ev: KeyboardEvent) => {
+      if (ev.key === "Escape") setOpen(false);
+    };
+    document.addEventListener("pointerdown", onDown);
+    document.addEventListener("keydown", onKey);
+    return () => {
+      document.removeEventListener("pointerdown", onDown);
+      document.removeEventListener("keydown", onKey);
+    };
+  }, [open]);
+
+  return (
+    <div ref={ref} className="relative">
+      <button type="button" aria-label="More options" aria-haspopup="menu" aria-expanded={open} onClick={() => setOpen((o) => !o)}>
+        <IconMoreVertical />
+      </button>
+      {open && (
+        <ul role="menu" className="absolute right-0 mt-1 w-52 rounded-lg bg-white shadow-lg ring-1 ring-black/5 py-1 z-50 text-sm text-gray-800">
+          {items.map((item) => (
+            <li key={item.label} role="none">
+              <button
+                type="button"
+                role={item.active === undefined ? "menuitem" : "menuitemradio"}
+                aria-checked={item.active}
+                className={`w-full text-left px-3 py-2 hover:bg-gray-100 ${item.active ? "font-semibold text-blue-700" : ""}`}
+                onClick={() => {
+                  setOpen(false);
+                  item.onSelect();
+                }}
+              >
+                {item.label}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
 }
 
+// Status treatments checkpoint staff learn to recognise; "current" shows nothing
+const STATUS_BANNERS: Partial<Record<LicenceStatus, { title: string; detail: string; className: string }>> = {
+  expired: { title: "EXPIRED", detail: "This licence is not valid for driving.", className: "bg-red-700 text-white" },
+  suspended: {
+    title: "SUSPENDED",
+    detail: "Driving privileges are suspended. Photo ID only.",
+    className: "bg-orange-600 text-white",
+  },
+  cancelled: { title: "CANCELLED", detail: "This licence has been cancelled.", className: "bg-gray-800 text-white" },
+};
+
 // Component
-function DigitalLicence() {
+export function DigitalLicence({
+  licence: issuedLicence,
+  onCredential,
+  revealTimeoutMs = 5000,
+  spring = DEFAULT_SPRING,
+  ambient = false,
+  calibration,
+  onTiltInput,
+  onRenderControl,
+  emblem = DEFAULT_EMBLEM,
+  hologram,
+  onBack,
+  shareUrl,
+  credentialService,
+  offscreen = true,
+  maxDpr = DEFAULT_MAX_DPR,
+  adaptiveResolution = true,
+  perfOverlay = false,
+  viewport = DEFAULT_VIEWPORT,
+  tiltSync,
+  reducedMotion,
+  highContrast,
+}: {
+  licence: LicenceData;
+  /** Called with each freshly signed QR payload. */
+  onCredential?: (token: string) => void;
+  /** How long a revealed sensitive field stays unblurred. */
+  revealTimeoutMs?: number;
+  /** Tilt smoothing; per-second constants so refresh rate doesn't change the feel. */
+  spring?: SpringConfig;
+  /** Drift the hologram on its own while idle; `true` uses `DEFAULT_AMBIENT`. */
+  ambient?: boolean | Partial<AmbientConfig>;
+  /** Neutral angle and sensitivity for every tilt source. */
+  calibration?: Partial<TiltCalibration>;
+  /** Exposes the card's input layer (record, replay, calibrate); null on unmount. */
+  onTiltInput?: (input: TiltInput | null) => void;
+  /** Exposes freeze + PNG capture for design-review stills; null on unmount. */
+  onRenderControl?: (control: CardRenderControl | null) => void;
+  /** Emblem the hologram is cut to; swap per credential type. */
+  emblem?: string;
+  /** Foil look; defaults to the classic preset. */
+  hologram?: HologramParams;
+  /** Header chevron action, e.g. back to the wallet; the chevron is inert without it. */
+  onBack?: () => void;
+  /** Link offered by the Share menu action; no Share item without it. */
+  shareUrl?: string;
+  /** Where pull-to-refresh and the Refresh action fetch the current record; without it they only re-sign the QR. */
+  credentialService?: CredentialService;
+  /** Draw the hologram in a worker via OffscreenCanvas where supported. */
+  offscreen?: boolean;
+  /** Cap on devicePixelRatio for the hologram's drawing buffer. */
+  maxDpr?: number;
+  /** Lower the hologram's resolution while frames run slow. */
+  adaptiveResolution?: boolean;
+  /** Dev overlay with FPS, frame time and the rendered DPR. */
+  perfOverlay?: boolean;
+  /** Screen the card is laid out in, including a simulated DPR for the hologram. */
+  viewport?: DeviceViewport;
+  /** Tilt shared with other cards; input on any of them moves them all. */
+  tiltSync?: TiltSync;
+  /** Static, level hologram with no drift or flip animation; defaults to prefers-reduced-motion. */
+  reducedMotion?: boolean;
+  /** Black text and a faint hologram; defaults to prefers-contrast: more. */
+  highContrast?: boolean;
+}) {
   const containerRef = React.useRef<HTMLDivElement | null>(null);
-  const canvasRef = React.useRef<HTMLCanvasElement | null>(null);
-  const specularRef = React.useRef<HTMLDivElement | null>(null);
-
-  // WebGL refs
-  const glRef = React.useRef<{
-    gl: WebGLRenderingContext;
-    program: WebGLProgram;
-    aPos: number;
-    uTilt: WebGLUniformLocation | null;
-    uResolution: WebGLUniformLocation | null;
-    buffer: WebGLBuffer | null;
-  } | null>(null);
+  // The device screen scrolls; pull-to-refresh only arms at its top
+  const screenRef = React.useRef<HTMLDivElement | null>(null);
+  const pullingRef = React.useRef(false);
+  const flipperRef = React.useRef<HTMLDivElement | null>(null);
+
+  const hologramRef = React.useRef<HologramSurface | null>(null);
+  const prefersReducedMotion = useMediaQuery("(prefers-reduced-motion: reduce)");
+  const prefersHighContrast = useMediaQuery("(prefers-contrast: more)");
+  const staticHologram = reducedMotion ?? prefersReducedMotion;
+  const contrast = highContrast ?? prefersHighContrast;
+  const hintId = React.useId();
+  const perf = React.useMemo(() => new FramePerf({ adaptive: adaptiveResolution }), []);
+  React.useEffect(() => perf.setAdaptive(adaptiveResolution), [adaptiveResolution]);
 
   const [permissionGranted, setPermissionGranted] = React.useState(false);
   const [showHint, setShowHint] = React.useState(true);
+  // "full" shows the whole card; a number is the age threshold being proven
+  const [shareMode, setShareMode] = React.useState<"full" | 18 | 21>("full");
+  const reveal = useReveal(revealTimeoutMs);
+  const [flipped, setFlipped] = React.useState(false);
+  // Bumped by the Refresh action to re-sign the QR with a fresh iat
+  const [signCount, setSignCount] = React.useState(0);
+  const [notice, setNotice] = React.useState<string | null>(null);
+  // A refresh may bring a newer record; a new `licence` prop starts over from that one
+  const [record, setRecord] = React.useState({ issued: issuedLicence, licence: issuedLicence });
+  const licence = record.issued === issuedLicence ? record.licence : issuedLicence;
+  const [refreshState, setRefreshState] = React.useState<RefreshState>("idle");
+  const refreshAbort = React.useRef<AbortController | null>(null);
 
   // Motion state
-  const currentPos = React.useRef({ x: 50, y: 50 });
+  const currentPos = React.useRef({ x: 50, y: 50, vx: 0, vy: 0 });
   const targetPos = React.useRef({ x: 50, y: 50 });
   const isAnimating = React.useRef(false);
-  const sensitivity = 1.6;
-
-  // Input handlers
-  const handleOrientation = (event: DeviceOrientationEvent) => {
-    if (!permissionGranted) return;
-    const gamma = event.gamma ?? 0; // x tilt
-    const beta = event.beta ?? 0;   // y tilt   <-- fixed typo here
-    const next = mapTiltToTarget(gamma, beta, sensitivity);
-    targetPos.current.x = next.x;
-    targetPos.current.y = next.y;
-    startAnimation();
-  };
-  const handleMouseMove = (ev: any) => {
-    if (permissionGranted || !containerRef.current) return;
-    const r = containerRef.current.getBoundingClientRect();
-    const x = ((ev.clientX - r.left) / r.width) * 100;
-    const y = ((ev.clientY - r.top) / r.height) * 100;
-    targetPos.current.x = clamp(x, 10, 90);
-    targetPos.current.y = clamp(y, 10, 90);
-    startAnimation();
-  };
-  const handleMouseLeave = () => {
-    if (permissionGranted) return;
-    targetPos.current.x = 50;
-    targetPos.current.y = 50;
-    startAnimation();
-  };
+  const lastFrameAt = React.useRef<number | null>(null);
+  const lastInputAt = React.useRef(0);
+  const tiltInputRef = React.useRef<TiltInput | null>(null);
+  // Deterministic render mode: while set, the card sits exactly at this tilt
+  const frozenTilt = React.useRef<Tilt | null>(null);
+  // Reduced motion: the hologram sits level and input doesn't move it
+  const staticRef = React.useRef(staticHologram);
+  staticRef.current = staticHologram;
+  const emblemRef = React.useRef(emblem);
+  emblemRef.current = emblem;
+
+  // Read inside the rAF loop, which outlives the render that started it
+  const springRef = React.useRef(spring);
+  springRef.current = spring;
+  const ambientConfig =
+    ambient && !staticHologram ? { ...DEFAULT_AMBIENT, ...(ambient === true ? {} : ambient) } : null;
+  const ambientRef = React.useRef(ambientConfig);
+  ambientRef.current = ambientConfig;
+  // Props read inside effects without re-running them when they change
+  const calibrationRef = React.useRef(calibration);
+  calibrationRef.current = calibration;
+  const onTiltInputRef = React.useRef(onTiltInput);
+  onTiltInputRef.current = onTiltInput;
+  const onRenderControlRef = React.useRef(onRenderControl);
+  onRenderControlRef.current = onRenderControl;
+  const onCredentialRef = React.useRef(onCredential);
+  onCredentialRef.current = onCredential;
+  // Ambient drift only runs while the tab is visible and the card is on screen
+  const ambientAllowed = React.useRef(true);
+
+  // Input: every source funnels through TiltInput into the spring target
+  React.useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const input = new TiltInput((target, sample) => {
+      // A pull-to-refresh drag is not a tilt
+      if (pullingRef.current && sample.source === "pointer") return;
+      targetPos.current.x = target.x;
+      targetPos.current.y = target.y;
+      lastInputAt.current = performance.now();
+      // Frozen cards still track the target so releasing glides to the live pose
+      if (!frozenTilt.current && !staticRef.current) startAnimation();
+    }, calibrationRef.current);
+    input.attach(el);
+    tiltInputRef.current = input;
+    onTiltInputRef.current?.(input);
+    return () => {
+      input.dispose();
+      tiltInputRef.current = null;
+      onTiltInputRef.current?.(null);
+    };
+  }, []);
+  React.useEffect(() => {
+    if (tiltSync) return tiltInputRef.current?.link(tiltSync);
+  }, [tiltSync]);
+  React.useEffect(() => {
+    if (calibration) tiltInputRef.current?.setCalibration(calibration);
+  }, [calibration?.neutralGamma, calibration?.neutralBeta, calibration?.sensitivity]);
+
   const enableTilt = async () => {
     setShowHint(false);
-    if (
-      typeof DeviceOrientationEvent !== "undefined" &&
-      typeof (DeviceOrientationEvent as any).requestPermission === "function"
-    ) {
-      try {
-        const res = await (DeviceOrientationEvent as any).requestPermission();
-        if (res === "granted") {
-          setPermissionGranted(true);
-          window.addEventListener("deviceorientation", handleOrientation, { passive: true });
-        }
-      } catch {}
-    } else if (typeof DeviceOrientationEvent !== "undefined") {
-      setPermissionGranted(true);
-      window.addEventListener("deviceorientation", handleOrientation, { passive: true });
-    }
+    if (await tiltInputRef.current?.enableOrientation()) setPermissionGranted(true);
   };
 
   // Animation + render
-  const renderOnce = () => {
-    const state = glRef.current;
-    if (!state) return;
-    const { gl, program, aPos, uTilt, uResolution } = state;
-    const dpr = Math.min(2, window.devicePixelRatio || 1);
-    const w = containerRef.current?.clientWidth ?? 414;
-    const h = containerRef.current?.clientHeight ?? 896;
-    const cw = Math.floor(w * dpr),
-      ch = Math.floor(h * dpr);
-
-    if (gl.canvas.width !== cw || gl.canvas.height !== ch) {
-      gl.canvas.width = cw;
-      gl.canvas.height = ch;
-      gl.viewport(0, 0, cw, ch);
-    }
-
-    gl.useProgram(program);
-    gl.bindBuffer(gl.ARRAY_BUFFER, state.buffer);
-    gl.enableVertexAttribArray(aPos);
-    gl.vertexAttribPointer(aPos, 2, gl.FLOAT, false, 0, 0);
-
-    const tx = currentPos.current.x / 100;
-    const ty = currentPos.current.y / 100;
-    if (uTilt) gl.uniform2f(uTilt, tx, ty);
-    if (uResolution) gl.uniform2f(uResolution, w, h);
-
-    gl.drawArrays(gl.TRIANGLES, 0, 3);
+  const applyTilt = () => {
+    hologramRef.current?.setTilt(currentPos.current.x / 100, currentPos.current.y / 100);
   };
-
-  const animateLerp = () => {
-    const speed = 0.12;
-    currentPos.current.x += (targetPos.current.x - currentPos.current.x) * speed;
-    currentPos.current.y += (targetPos.current.y - currentPos.current.y) * speed;
-
-    if (specularRef.current) {
-      const { x, y } = currentPos.current;
-      (specularRef.current as HTMLDivElement).style.background = `radial-gradient(circle at ${x}% ${y}%, rgba(255,255,255,0.98) 0%, rgba(255,255,255,0.6) 22%, rgba(255,255,255,0.0) 46%)`;
+  const holdLevel = () => {
+    Object.assign(currentPos.current, { x: 50, y: 50, vx: 0, vy: 0 });
+    applyTilt();
+  };
+  const animateSpring = (now: number) => {
+    if (frozenTilt.current || staticRef.current) {
+      isAnimating.current = false;
+      lastFrameAt.current = null;
+      return;
     }
+    // Clamp the step so a backgrounded tab doesn't resume with a jump
+    const dt = lastFrameAt.current === null ? 1 / 60 : Math.min(0.05, (now - lastFrameAt.current) / 1000);
+    lastFrameAt.current = now;
 
-    renderOnce();
+    const amb = ambientAllowed.current ? ambientRef.current : null;
+    const target = { x: targetPos.current.x, y: targetPos.current.y };
+    const idleFor = (now - lastInputAt.current) / 1000 - (amb?.idleAfterMs ?? 0) / 1000;
+    if (amb && idleFor > 0) {
+      const fade = Math.min(1, idleFor / amb.fadeInSeconds);
+      const drift = ambientDrift(now / 1000, amb.amplitude * fade * fade * (3 - 2 * fade));
+      target.x = clamp(target.x + drift.x, 10, 90);
+      target.y = clamp(target.y + drift.y, 10, 90);
+    }
+    stepSpring(currentPos.current, target, dt, springRef.current);
+    applyTilt();
 
-    if (
-      Math.abs(targetPos.current.x - currentPos.current.x) > 0.01 ||
-      Math.abs(targetPos.current.y - currentPos.current.y) > 0.01
-    ) {
-      requestAnimationFrame(animateLerp);
+    if (amb || !isSpringAtRest(currentPos.current, target)) {
+      requestAnimationFrame(animateSpring);
     } else {
       isAnimating.current = false;
+      lastFrameAt.current = null;
     }
   };
   const startAnimation = () => {
     if (!isAnimating.current) {
       isAnimating.current = true;
-      requestAnimationFrame(animateLerp);
+      requestAnimationFrame(animateSpring);
     }
   };
 
-  const isTouchDevice =
-    typeof window !== "undefined" &&
-    ("ontouchstart" in window || (navigator as any).maxTouchPoints > 0);
+  // Freeze + capture for stills; the handle reads refs, so it is created once
+  React.useEffect(() => {
+    onRenderControlRef.current?.({
+      freeze(tilt) {
+        frozenTilt.current = tilt ? { ...tilt } : null;
+        if (tilt) {
+          Object.assign(currentPos.current, { x: tilt.x, y: tilt.y, vx: 0, vy: 0 });
+          applyTilt();
+        } else if (staticRef.current) {
+          holdLevel();
+        } else {
+          startAnimation();
+        }
+      },
+      async capture(options) {
+        // The renderer's own load callback runs first, so the mask is in place after this
+        await loadEmblem(emblemRef.current).catch(() => undefined);
+        const frame = flipperRef.current;
+        const face = frame?.querySelector<HTMLElement>(':scope > .card-face[aria-hidden="false"]');
+        if (!frame || !face) throw new Error("Card is not mounted");
+        // Redraw right before composing so the WebGL buffer holds this exact tilt
+        applyTilt();
+        const surface = hologramRef.current;
+        // A worker-drawn canvas can't be read here; the worker sends its frame instead
+        const hologramImage = await surface?.snapshot?.();
+        return composeCard({ frame, hologram: surface?.canvas ?? null, hologramImage, foreground: face }, options);
+      },
+    });
+    return () => onRenderControlRef.current?.(null);
+  }, []);
 
-  // WebGL init
   React.useEffect(() => {
-    if (!canvasRef.current || glRef.current) return;
-
-    const canvas = canvasRef.current;
-    const gl =
-      (canvas.getContext("webgl") ||
-        canvas.getContext("experimental-webgl")) as WebGLRenderingContext | null;
-    if (!gl) {
-      console.warn("WebGL not available; skipping hologram");
-      return;
+    if (staticHologram) {
+      if (!frozenTilt.current) holdLevel();
+    } else {
+      startAnimation();
     }
+  }, [staticHologram]);
 
-    const vs = `
-      attribute vec2 a_position;
-      varying vec2 vUv;
-      void main(){
-        vUv = a_position * 0.5 + 0.5;
-        gl_Position = vec4(a_position, 0.0, 1.0);
-      }
-    `;
-
-    const fs = `
-      precision highp float;
-      varying vec2 vUv;
-      uniform vec2 u_tilt;
-      uniform vec2 u_resolution;
-
-      float hash(vec2 p){ return fract(sin(dot(p, vec2(127.1,311.7))) * 43758.5453123); }
-      float noise(vec2 p){
-        vec2 i=floor(p), f=fract(p);
-        float a=hash(i), b=hash(i+vec2(1.,0.)), c=hash(i+vec2(0.,1.)), d=hash(i+vec2(1.,1.));
-        vec2 u=f*f*(3.-2.*f);
-        return mix(a,b,u.x)+(c-a)*u.y*(1.-u.x)+(d-b)*u.x*u.y;
-      }
-      mat2 rot(float a){ float s=sin(a), c=cos(a); return mat2(c,-s,s,c); }
-      vec3 hsl2rgb(vec3 hsl){ vec3 rgb = clamp(abs(mod(hsl.x*6.0+vec3(0.,4.,2.),6.)-3.)-1.,0.,1.); return hsl.z + hsl.y*(rgb-0.5)*(1.0-abs(2.0*hsl.z-1.0)); }
-
-      void main(){
-        vec2 tilt = (u_tilt - 0.5);
-        vec2 uv = vUv + tilt * vec2(0.18, 0.12);
-        vec2 asp = vec2(u_resolution.x/u_resolution.y, 1.0);
-        vec2 q = uv * asp;
-
-        vec2 nw = q * 3.7; nw *= rot(2.39996323);
-        float nA = noise(nw + tilt*0.9);
-        float nB = noise(nw*1.9 + vec2(0.73,-1.21));
-        q += (vec2(nA,nB)-0.5) * 0.35;
+  // Pause the idle drift when the tab is hidden or the card scrolls off-screen
+  const ambientEnabled = !!ambientConfig;
+  React.useEffect(() => {
+    if (!ambientEnabled) return;
+    let pageVisible = document.visibilityState !== "hidden";
+    let onScreen = true;
+    const update = () => {
+      ambientAllowed.current = pageVisible && onScreen;
+      if (ambientAllowed.current) startAnimation();
+    };
+    const onVisibility = () => {
+      pageVisible = document.visibilityState !== "hidden";
+      update();
+    };
+    const observer =
+      typeof IntersectionObserver !== "undefined"
+        ? new IntersectionObserver((entries) => {
+            onScreen = entries.some((e) => e.isIntersecting);
+            update();
+          })
+        : null;
+    if (containerRef.current) observer?.observe(containerRef.current);
+    document.addEventListener("visibilitychange", onVisibility);
+    lastInputAt.current = performance.now();
+    update();
+    return () => {
+      observer?.disconnect();
+      document.removeEventListener("visibilitychange", onVisibility);
+    };
+  }, [ambientEnabled]);
 
-        vec2 c1=vec2(0.23,0.31)+tilt*0.23; vec2 c2=vec2(0.66,0.28)+tilt*0.19; vec2 c3=vec2(0.82,0.64)+tilt*0.21;
-        vec2 c4=vec2(0.37,0.74)+tilt*0.17; vec2 c5=vec2(0.12,0.58)+tilt*0.20; vec2 c6=vec2(0.55,0.47)+tilt*0.16;
-        float r1=.26,r2=.21,r3=.19,r4=.17,r5=.16,r6=.15;
+  const isTouchDevice =
+    typeof window !== "undefined" &&
+    ("ontouchstart" in window || (navigator as any).maxTouchPoints > 0);
 
-        float f=0.;
-        #define ADD(C,R) f += (R*R)/(dot(q-(C),q-(C))+1e-3);
-        ADD(c1,r1) ADD(c2,r2) ADD(c3,r3) ADD(c4,r4) ADD(c5,r5) ADD(c6,r6)
-        #undef ADD
+  // Display values derived from the record
+  const expiry = parseLicenceDate(licence.expiry);
+  const dob = parseLicenceDate(licence.dateOfBirth);
+  const issueDate = licence.issueDate ? parseLicenceDate(licence.issueDate) : null;
+  // Status, days left and the QR's claims roll over at Sydney midnight even if the card stays open
+  const today = useSydneyDay();
+  const status = React.useMemo(() => licenceStatus(licence, today), [licence, today]);
+  const banner = STATUS_BANNERS[status.status];
+  const theme = credentialTheme(licence);
+  const accent = contrast ? "text-black" : theme.accentClass;
+  // A licence that can't be used for driving loses its colour (tint included), so it reads as void at a glance
+  const hologramParams = React.useMemo(() => {
+    const base = hologram ?? DEFAULT_HOLOGRAM;
+    if (status.status === "suspended" || status.status === "cancelled") return { ...base, saturation: 0, tint: undefined };
+    return theme.tint ? { ...base, tint: theme.tint } : hologram;
+  }, [hologram, status.status, theme]);
+  const sensitiveFields = licence.sensitiveFields ?? DEFAULT_SENSITIVE_FIELDS;
+  const sensitiveProps = (field: SensitiveField, label: string) => ({
+    field,
+    label,
+    sensitive: sensitiveFields.includes(field),
+    revealed: reveal.revealed === field,
+    onReveal: reveal.reveal,
+  });
+  const [qrPayload, setQrPayload] = React.useState<string | null>(null);
+  const ageProof = React.useMemo(
+    () => (shareMode === "full" ? null : ageClaims(licence, shareMode, today)),
+    [licence, shareMode, today]
+  );
+  // The age proof hides the card's details, so the back face goes with them
+  const proveAge = (over: 18 | 21) => {
+    setFlipped(false);
+    setShareMode(over);
+  };
+  const claims = React.useMemo(() => ageProof ?? licenceClaims(licence, today), [ageProof, licence, today]);
 
-        float ang = atan(q.y-0.5,q.x-0.5);
-        f += 0.08 * sin(ang*36.0 + (tilt.x-tilt.y)*10.0);
+  // Sign the QR payload with the local dev issuer; a refresh re-signs the same claims
+  React.useEffect(() => {
+    let cancelled = false;
+    getDevIssuer()
+      .then((issuer) => signCredential(claims, issuer))
+      .then((token) => {
+        if (cancelled) return;
+        setQrPayload(token);
+        onCredentialRef.current?.(token);
+      })
+      .catch((err) => {
+        // WebCrypto is missing on insecure origins (e.g. LAN IP over http)
+        console.warn("Credential signing unavailable; QR carries unsigned claims", err);
+        if (!cancelled) setQrPayload(JSON.stringify(claims));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [claims, signCount]);
 
-        float hue = fract(f*0.34 + (tilt.x-tilt.y)*0.06);
-        float sat = 0.95;
-        float lig = 0.55 + 0.20*clamp(f,0.0,1.4);
-        vec3 col = hsl2rgb(vec3(hue,sat,lig));
+  React.useEffect(() => {
+    if (!notice) return;
+    const timer = window.setTimeout(() => setNotice(null), 2500);
+    return () => window.clearTimeout(timer);
+  }, [notice]);
 
-        float edge = smoothstep(0.62,0.98,f);
-        col += vec3(1.0) * edge * 0.28;
+  const refresh = async () => {
+    if (!credentialService) {
+      setSignCount((n) => n + 1);
+      return;
+    }
+    if (refreshAbort.current) return;
+    const controller = new AbortController();
+    refreshAbort.current = controller;
+    setRefreshState("loading");
+    try {
+      const updated = await credentialService.refresh(licence, controller.signal);
+      // The new record is re-signed into the QR through `claims`
+      setRecord({ issued: issuedLicence, licence: updated });
+      setRefreshState("success");
+    } catch {
+      if (!controller.signal.aborted) setRefreshState("offline");
+    } finally {
+      if (refreshAbort.current === controller) refreshAbort.current = null;
+    }
+  };
+  const pull = usePullToRefresh(containerRef, screenRef, refresh, flipped || refreshState === "loading");
+  const pulling = pull > 0;
+  pullingRef.current = pulling;
+  // The first few pixels of a pull still tilted; settle back to level while it runs
+  React.useEffect(() => {
+    if (!pulling || staticRef.current) return;
+    Object.assign(targetPos.current, { x: 50, y: 50 });
+    if (!frozenTilt.current) startAnimation();
+  }, [pulling]);
+  React.useEffect(() => () => refreshAbort.current?.abort(), []);
+  // "Refreshed just now" settles back to the timestamp
+  React.useEffect(() => {
+    if (refreshState !== "success") return;
+    const timer = window.setTimeout(() => setRefreshState("idle"), 3000);
+    return () => window.clearTimeout(timer);
+  }, [refreshState]);
 
-        gl_FragColor = vec4(col, 1.0);
+  // Web Share where the platform has it (mobile), otherwise copy the link
+  const share = async () => {
+    if (!shareUrl) return;
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: theme.title, url: shareUrl });
+      } else {
+        await navigator.clipboard.writeText(shareUrl);
+        setNotice("Link copied");
       }
-    `;
-
-    const program = createProgram(gl, vs, fs);
-    const aPos = gl.getAttribLocation(program, "a_position");
-    const uTilt = gl.getUniformLocation(program, "u_tilt");
-    const uResolution = gl.getUniformLocation(program, "u_resolution");
-
-    const buffer = gl.createBuffer();
-    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
-    gl.bufferData(
-      gl.ARRAY_BUFFER,
-      new Float32Array([-1, -1, 3, -1, -1, 3]),
-      gl.STATIC_DRAW
-    );
-
-    glRef.current = { gl, program, aPos, uTilt, uResolution, buffer };
-
-    const onResize = () => {
-      renderOnce();
-    };
-    window.addEventListener("resize", onResize);
-    renderOnce();
-
-    return () => {
-      window.removeEventListener("resize", onResize);
-      try {
-        gl.deleteBuffer(buffer!);
-      } catch {}
-      try {
-        gl.deleteProgram(program!);
-      } catch {}
-      glRef.current = null;
-    };
-  }, []);
+    } catch (err) {
+      // Dismissing the share sheet rejects with AbortError; that isn't a failure
+      if ((err as Error)?.name !== "AbortError") setNotice("Couldn't share this card");
+    }
+  };
 
   return (
-    <div className="min-h-screen bg-gray-100 font-sans">
+    <div
+      className={`min-h-screen font-sans ${contrast ? "high-contrast bg-white" : "bg-gray-100"} ${
+        staticHologram ? "reduce-motion" : ""
+      }`}
+    >
       <style>{`
         body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif, "Apple Color Emoji", "Segoe UI Emoji", "Segoe UI Symbol"; }
-        .iphone-11{ width: 414px; height: 896px; border-radius: 36px; overflow: hidden; background: transparent; position: relative; }
-        .licence-overscan{ position: relative; }
+        .device-screen{ overflow-x: hidden; overflow-y: auto; background: transparent; position: relative; container-type: inline-size; }
+        /* Vertical drags scroll the screen; sideways drags are tilt */
+        .licence-overscan{ position: relative; perspective: 1400px; touch-action: pan-y; }
+        .card-flipper{ position: relative; transform-style: preserve-3d; transition: transform 700ms cubic-bezier(.2,.7,.2,1); }
+        .card-flipper.is-flipped{ transform: rotateY(180deg); }
+        .reduce-motion .card-flipper{ transition: none; }
+        .card-face{ -webkit-backface-visibility: hidden; backface-visibility: hidden; }
+        .card-back{ position: absolute; inset: 0; transform: rotateY(180deg); overflow-y: auto; }
         .holo-canvas{
           position:absolute; inset:0; width:120%; height:120%; left:-10%; top:-10%; z-index:5; pointer-events:none;
-          -webkit-mask-image:url('https://qtrypzzcjebvfcihiynt.supabase.co/storage/v1/object/public/base44-prod/public/68cfe7e4208081a124aa9e75/49e6df419_warratah.png');
-          mask-image:url('https://qtrypzzcjebvfcihiynt.supabase.co/storage/v1/object/public/base44-prod/public/68cfe7e4208081a124aa9e75/49e6df419_warratah.png');
-          -webkit-mask-size:contain; mask-size:contain; -webkit-mask-position:center; mask-position:center; -webkit-mask-repeat:no-repeat; mask-repeat:no-repeat;
-          mix-blend-mode: normal; opacity: 0.6;
+          mix-blend-mode: normal;
         }
-        .specular-overlay{
-          position:absolute; inset:0; width:120%; height:120%; left:-10%; top:-10%; z-index:6; pointer-events:none;
-          mix-blend-mode: overlay;
-          -webkit-mask-image:url('https://qtrypzzcjebvfcihiynt.supabase.co/storage/v1/object/public/base44-prod/public/68cfe7e4208081a124aa9e75/49e6df419_warratah.png');
-          mask-image:url('https://qtrypzzcjebvfcihiynt.supabase.co/storage/v1/object/public/base44-prod/public/68cfe7e4208081a124aa9e75/49e6df419_warratah.png');
-          -webkit-mask-size:contain; mask-size:contain; -webkit-mask-position:center; mask-position:center; -webkit-mask-repeat:no-repeat; mask-repeat:no-repeat;
-          background: radial-gradient(circle at 50% 50%, rgba(255,255,255,0.95) 0%, rgba(255,255,255,0.55) 22%, rgba(255,255,255,0.0) 46%);
-          opacity: 0.6;
+        .high-contrast .holo-canvas{ opacity: .25; }
+        .high-contrast .text-gray-500, .high-contrast .text-gray-600, .high-contrast .text-gray-700{ color: #000; }
+        /* Narrow in text units: large text (200%) or a small screen. Stack instead of overlapping */
+        @container (max-width: 20em) {
+          .card-masthead{ flex-wrap: wrap; height: auto; row-gap: .75rem; }
+          .card-masthead > .card-portrait{ position: relative; left: auto; top: auto; transform: none; order: 3; margin: 0 auto; }
+          .card-number-row{ flex-direction: column; gap: .75rem; }
+          .card-number-row > .card-qr{ width: 100%; margin-left: 0; border-left: 0; }
+          .card-classes{ flex-direction: column; align-items: stretch; gap: .75rem; }
+          .card-classes > div{ width: 100%; }
         }
         .blue-texture { width: 50%; background-image: repeating-radial-gradient(circle at -30% 50%, rgba(0,0,0,0.03) 0px, rgba(0,0,0,0.03) 1px,transparent 1px, transparent 12px), repeating-radial-gradient(circle at 130% 50%, rgba(0,0,0,0.03) 0px, rgba(0,0,0,0.03) 1px,transparent 1px, transparent 12px); background-color: #e0e8f2; }
       `}</style>
 
-      <div className="iphone-11 mx-auto flex flex-col">
+      <div
+        ref={screenRef}
+        className="device-screen mx-auto flex flex-col"
+        style={{ width: viewport.width, height: viewport.height, borderRadius: viewport.cornerRadius }}
+      >
         <header className="bg-transparent">
           <div className="flex items-center justify-between px-4 py-3">
-            <IconChevronLeft />
-            <h1 className="text-md font-semibold text-gray-800">NSW Driver Licence</h1>
-            <IconMoreVertical />
+            <button type="button" aria-label="Back" disabled={!onBack} onClick={onBack}>
+              <IconChevronLeft />
+            </button>
+            <h1 className="text-md min-w-0 px-2 text-center font-semibold text-gray-800">{theme.title}</h1>
+            <OverflowMenu
+              items={[
+                { label: "Refresh", onSelect: refresh },
+                ...(shareUrl ? [{ label: "Share", onSelect: share }] : []),
+                ...(shareMode === "full"
+                  ? [{ label: flipped ? "Hide details" : "Details", onSelect: () => setFlipped((f) => !f) }]
+                  : []),
+                { label: "Show full licence", active: shareMode === "full", onSelect: () => setShareMode("full") },
+                { label: "Prove I'm over 18", active: shareMode === 18, onSelect: () => proveAge(18) },
+                { label: "Prove I'm over 21", active: shareMode === 21, onSelect: () => proveAge(21) },
+              ]}
+            />
           </div>
-          <div className="h-1 bg-yellow-300"></div>
+          <div className={`h-1 ${theme.stripClass}`}></div>
         </header>
 
         <main className="relative flex-1 w-full">
+          {perfOverlay && <PerfOverlay perf={perf} maxDpr={maxDpr} devicePixelRatio={viewport.devicePixelRatio} />}
+          {pull > 0 && (
+            <div
+              className="flex items-end justify-center overflow-hidden text-xs text-gray-500"
+              style={{ height: (pull * PULL_THRESHOLD) / 2 }}
+            >
+              {pull >= 1 ? "Release to refresh" : "Pull to refresh"}
+            </div>
+          )}
           <div
-            className="licence-overscan"
             ref={containerRef}
-            onMouseMove={handleMouseMove}
-            onMouseLeave={handleMouseLeave}
-            onClick={isTouchDevice ? enableTilt : undefined}
+            tabIndex={0}
+            role="group"
+            aria-label="Licence card"
+            aria-describedby={hintId}
+            className="licence-overscan rounded-lg focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-600"
+            onClick={isTouchDevice && !permissionGranted ? enableTilt : undefined}
           >
-            {/* Hologram layers with Waratah mask covering the card */}
-            <canvas ref={canvasRef} className="holo-canvas" />
-            <div ref={specularRef} className="specular-overlay" aria-hidden />
-
-            {/* Foreground content */}
-            <div className="relative z-30 px-4 pt-2 pb-6">
-              <section className="relative flex justify-between items-start h-24">
-                <div
-                  className="w-16 h-8 bg-contain bg-no-repeat"
-                  style={{
-                    backgroundImage:
-                      "url('https://qtrypzzcjebvfcihiynt.supabase.co/storage/v1/object/public/base44-prod/public/68cfe7e4208081a124aa9e75/95e347781_nsw-logo.png')",
-                  }}
-                ></div>
-                <div className="absolute left-1/2 -translate-x-1/2 -top-1">
-                  <img
-                    src="https://qtrypzzcjebvfcihiynt.supabase.co/storage/v1/object/public/base44-prod/public/68cfe7e4208081a124aa9e75/7b58ec064_trevor-long.png"
-                    alt="Portrait"
-                    className="w-24 h-auto rounded-lg shadow-md"
-                  />
-                  <span className="absolute -bottom-2 -right-2 bg-white rounded-full">
-                    <IconCheckCircle />
-                  </span>
-                </div>
-                <div className="text-right text-xs text-gray-500">
-                  <p>Refreshed</p>
-                  <p>19 Jun 2019</p>
-                  <p>06:34am</p>
-                </div>
-              </section>
-
-              <section className="text-center mt-4 mb-5">
-                <div className="text-center mt-4 mb-5">
-                  <h2 className="text-2xl font-semibold text-blue-900">
-                    Trevor William <span className="font-bold">LONG</span>
-                    </h2>
-                    </div>
-                    </section>
-
-              <section className="relative rounded-lg overflow-hidden p-3">
-                <div className="relative z-10 flex justify-between">
-                  <div className="space-y-3">
-                    <div>
-                      <p className="text-xs font-bold text-gray-500">LICENCE NUMBER</p>
-                      <p className="text-sm font-mono tracking-wider" style={{ filter: 'blur(3px)' }}>1234 5678</p>
-                    </div>
-                    <div>
-                      <p className="text-xs font-bold text-gray-500">EXPIRY</p>
-                      <p className="text-lg font-bold text-blue-900">13 Jul 2021</p>
+            <p id={hintId} className="sr-only">
+              {staticHologram
+                ? "The hologram is still while reduced motion is on."
+                : "Arrow keys tilt the hologram; Home levels it."}
+            </p>
+            <div ref={flipperRef} className={`card-flipper ${flipped ? "is-flipped" : ""}`}>
+              {/* Hologram (emblem mask + specular in one shader pass) covering the card */}
+              <HologramLayer
+                surfaceRef={hologramRef}
+                containerRef={containerRef}
+                tiltRef={currentPos}
+                emblem={emblem}
+                params={hologramParams}
+                offscreen={offscreen}
+                maxDpr={maxDpr}
+                devicePixelRatio={viewport.devicePixelRatio}
+                perf={perf}
+              />
+
+              {/* Foreground content */}
+              <div className="card-face relative z-30 px-4 pt-2 pb-6" aria-hidden={flipped}>
+                {banner ? (
+                  <div role="status" className={`-mx-4 -mt-2 mb-2 px-4 py-2 text-center ${banner.className}`}>
+                    <p className="text-lg font-extrabold tracking-widest">{banner.title}</p>
+                    <p className="text-xs">{banner.detail}</p>
+                  </div>
+                ) : (
+                  status.status === "expiring" &&
+                  status.daysLeft !== null && (
+                    <div role="status" className="-mx-4 -mt-2 mb-2 px-4 py-1.5 text-center text-sm font-semibold bg-amber-300 text-amber-950">
+                      {formatDaysLeft(status.daysLeft)}
                     </div>
+                  )
+                )}
+                <section className="card-masthead relative flex justify-between items-start h-24">
+                  <div
+                    role="img"
+                    aria-label="NSW Government"
+                    className="w-16 h-8 shrink-0 bg-contain bg-no-repeat"
+                    style={{
+                      backgroundImage: `url('${nswLogoUrl}')`,
+                    }}
+                  ></div>
+                  <div className="card-portrait absolute left-1/2 -translate-x-1/2 -top-1">
+                    {licence.portraitUrl ? (
+                      <img
+                        src={licence.portraitUrl}
+                        alt={`Photo of ${licence.givenNames} ${licence.familyName}`}
+                        className="w-24 h-auto rounded-lg shadow-md"
+                      />
+                    ) : (
+                      <div
+                        role="img"
+                        aria-label={`No photo on file for ${licence.givenNames} ${licence.familyName}`}
+                        className="w-24 h-28 rounded-lg shadow-md bg-gray-200 flex items-center justify-center text-2xl font-semibold text-gray-500"
+                      >
+                        {licence.givenNames.charAt(0)}
+                        {licence.familyName.charAt(0)}
+                      </div>
+                    )}
+                    <span
+                      role="img"
+                      aria-label="Verified by NSW Government"
+                      title="Verified by NSW Government"
+                      className="absolute -bottom-2 -right-2 bg-white rounded-full"
+                    >
+                      <IconCheckCircle />
+                    </span>
                   </div>
-                  <div className="flex w-2/5 border-l-2 border-dashed border-gray-400/50 ml-2">
-                    <div className="blue-texture w-1/2"></div>
-                    <div className="w-1/2 bg-white p-1">
-                      <img src="https://qtrypzzcjebvfcihiynt.supabase.co/storage/v1/object/public/base44-prod/public/68cfe7e4208081a124aa9e75/bd3f21820_qr-code.png" alt="QR Code" className="w-full h-full" />
+                  <RefreshStatus refreshedAt={licence.refreshedAt} state={refreshState} />
+                </section>
+
+                {!ageProof ? (
+                  <>
+                  <section className="text-center mt-4 mb-5">
+                    <div className="text-center mt-4 mb-5">
+                      <h2 className={`${nameSizeClass(licence)} font-semibold ${accent} break-words leading-tight`}>
+                        {licence.givenNames} <span className="font-bold">{licence.familyName}</span>
+                        </h2>
+                      {theme.badge && (
+                        <span
+                          className={`mt-2 inline-flex h-8 w-8 items-center justify-center rounded font-extrabold ${theme.badge.className}`}
+                          title={theme.badge.description}
+                          aria-label={`${theme.badge.description} plate`}
+                        >
+                          {theme.badge.label}
+                        </span>
+                      )}
+                        </div>
+                        </section>
+
+                  <section className="relative rounded-lg overflow-hidden p-3">
+                    <div className="card-number-row relative z-10 flex justify-between">
+                      <dl className="space-y-3">
+                        <div>
+                          <dt className="text-xs font-bold text-gray-500">{theme.numberLabel}</dt>
+                          <dd>
+                            <SensitiveValue {...sensitiveProps("licenceNumber", "Licence number")} className="text-sm font-mono tracking-wider">
+                              {licence.licenceNumber}
+                            </SensitiveValue>
+                          </dd>
+                        </div>
+                        <div>
+                          <dt className="text-xs font-bold text-gray-500">EXPIRY</dt>
+                          <dd>
+                            <SensitiveValue
+                              {...sensitiveProps("expiry", "Expiry")}
+                              className={`text-lg font-bold ${status.status === "expired" ? "text-red-700" : accent}`}
+                            >
+                              {expiry ? formatLicenceDate(expiry) : licence.expiry}
+                            </SensitiveValue>
+                          </dd>
+                        </div>
+                      </dl>
+                      <div className="card-qr flex w-2/5 border-l-2 border-dashed border-gray-400/50 ml-2">
+                        <div className="blue-texture w-1/2"></div>
+                        <div className="w-1/2 bg-white p-1">
+                          {qrPayload && <QrCode value={qrPayload} ecc="M" className="w-full h-full" title="Verification QR code" />}
+                        </div>
+                      </div>
                     </div>
+                  </section>
+
+                  {/* Separate lists so each dt/dd pair sits in one div directly under its dl, as HTML requires */}
+                  <div className="mt-4 space-y-4 text-sm">
+                    <dl>
+                      <div>
+                        <dt className="text-xs font-bold text-gray-500">DATE OF BIRTH</dt>
+                        <dd>
+                          <SensitiveValue {...sensitiveProps("dateOfBirth", "Date of birth")} className={`text-lg font-bold ${accent}`}>
+                            {dob ? formatDayMonth(dob) : licence.dateOfBirth}
+                          </SensitiveValue>
+                        </dd>
+                      </div>
+                    </dl>
+                    {theme.fields.includes("classes") && (
+                    <dl className={`card-classes flex items-center p-3 rounded-lg ${contrast ? "border-2 border-black" : "bg-gray-100"}`}>
+                      <div className="w-1/2">
+                        <dt className="text-xs font-bold text-gray-500 flex items-center">
+                          CLASS{" "}
+                          <button
+                            type="button"
+                            className="ml-1 inline-block align-middle"
+                            aria-label="Explain classes and conditions"
+                            onClick={() => setFlipped(true)}
+                          >
+                            <IconInfo color={contrast ? "#000000" : undefined} />
+                          </button>
+                        </dt>
+                        <dd className={`text-lg font-bold ${accent}`}>{licence.classes.join(", ")}</dd>
+                      </div>
+                      {theme.fields.includes("conditions") && (
+                      <div className="w-1/2">
+                        <dt className="text-xs font-bold text-gray-500">CONDITIONS</dt>
+                        <dd className={`text-lg font-bold ${accent} break-words`}>{formatConditions(licence.conditions)}</dd>
+                      </div>
+                      )}
+                    </dl>
+                    )}
+                    <dl>
+                      <div>
+                        <dt className="text-xs font-bold text-gray-500">ADDRESS</dt>
+                        <dd>
+                          <SensitiveValue {...sensitiveProps("address", "Address")} className={accent}>
+                            {licence.address}
+                          </SensitiveValue>
+                        </dd>
+                      </div>
+                    </dl>
                   </div>
-                </div>
-              </section>
-
-              <section className="mt-4 space-y-4 text-sm">
-                <div>
-                  <p className="text-xs font-bold text-gray-500">DATE OF BIRTH</p>
-                  <p className="text-lg font-bold text-blue-900">14 Dec</p>
-                </div>
-                <div className="flex items-center bg-gray-100 p-3 rounded-lg">
-                  <div className="w-1/2">
-                    <p className="text-xs font-bold text-gray-500 flex items-center">
-                      CLASS <span className="ml-1 inline-block align-middle"><IconInfo /></span>
+                  </>
+                ) : (
+                  <section className="flex flex-col items-center text-center mt-10 space-y-4">
+                    {/* Age proof only: no name, DOB, number or address on screen or in the QR */}
+                    <p className="text-xs font-bold text-gray-500">AGE VERIFIED BY NSW GOVERNMENT</p>
+                    <p className={`text-4xl font-bold ${ageProof.result ? accent : "text-red-700"}`}>
+                      {ageProof.result ? `Over ${ageProof.over}` : `Not over ${ageProof.over}`}
                     </p>
-                    <p className="text-lg font-bold text-blue-900">C</p>
+                    <div className="w-40 h-40 bg-white p-1 rounded-lg shadow">
+                      {qrPayload && <QrCode value={qrPayload} ecc="M" className="w-full h-full" title="Age verification QR code" />}
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => setShareMode("full")}
+                      className="text-sm font-semibold text-blue-700"
+                    >
+                      Done
+                    </button>
+                  </section>
+                )}
+              </div>
+
+              {/* Back face: the hologram layers above stay visible through it */}
+              {shareMode === "full" && (
+              <div className="card-face card-back z-30 px-4 pt-4 pb-6 text-sm" aria-hidden={!flipped}>
+                <h2 className={`text-lg font-semibold ${accent} mb-4`}>{theme.detailsTitle}</h2>
+                <dl className="grid grid-cols-2 gap-4 mb-5">
+                  <div>
+                    <dt className="text-xs font-bold text-gray-500">CARD NUMBER</dt>
+                    <dd className={`font-mono ${accent}`}>{licence.cardNumber ?? "—"}</dd>
                   </div>
-                  <div className="w-1/2">
-                    <p className="text-xs font-bold text-gray-500">CONDITIONS</p>
-                    <p className="text-lg font-bold text-blue-900">None</p>
+                  <div>
+                    <dt className="text-xs font-bold text-gray-500">ISSUED</dt>
+                    <dd className={accent}>{issueDate ? formatLicenceDate(issueDate) : "—"}</dd>
                   </div>
-                </div>
-                <div>
-                  <p className="text-xs font-bold text-gray-500">ADDRESS</p>
-                  <p className="text-blue-900" style={{ filter: 'blur(3px)' }}>
-                    123 Fake Street, SYDNEY NSW 2000
-                  </p>
-                </div>
-              </section>
+                </dl>
+
+                {theme.fields.includes("classHistory") && (
+                <>
+                <h3 className="text-xs font-bold text-gray-500 mb-2">CLASS HISTORY</h3>
+                <ul className="mb-5 divide-y divide-gray-200 bg-white/70 rounded-lg">
+                  {(licence.classHistory ?? licence.classes.map((cls) => ({ cls, since: "" }))).map((h) => {
+                    const since = h.since ? parseLicenceDate(h.since) : null;
+                    return (
+                      <li key={h.cls} className="flex justify-between px-3 py-2">
+                        <span className={`font-bold ${accent}`}>{h.cls}</span>
+                        <span className="text-gray-600">{since ? `since ${formatLicenceDate(since)}` : "current"}</span>
+                      </li>
+                    );
+                  })}
+                </ul>
+                </>
+                )}
+
+                {theme.fields.includes("conditions") && (
+                <>
+                <h3 className="text-xs font-bold text-gray-500 mb-2">CONDITIONS</h3>
+                {licence.conditions.length ? (
+                  <dl className="mb-5 space-y-2">
+                    {licence.conditions.map((code) => (
+                      <div key={code} className="flex gap-3 bg-white/70 rounded-lg px-3 py-2">
+                        <dt className={`font-bold ${accent} w-6`}>{code}</dt>
+                        <dd className="text-gray-700">{describeCondition(code)}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                ) : (
+                  <p className="mb-5 text-gray-700">No conditions apply to this licence.</p>
+                )}
+                </>
+                )}
+
+                <button type="button" onClick={() => setFlipped(false)} className="font-semibold text-blue-700">
+                  Back to front
+                </button>
+              </div>
+              )}
             </div>
           </div>
         </main>
       </div>
 
+      {notice && (
+        <div aria-live="polite" className="fixed top-4 left-1/2 -translate-x-1/2 bg-gray-900 text-white px-4 py-2 rounded-full text-sm shadow-lg z-50">
+          {notice}
+        </div>
+      )}
+
       {isTouchDevice && showHint && (
         <div className="fixed bottom-4 left-1/2 transform -translate-x-1/2 bg-blue-600 text-white px-4 py-2 rounded-full text-sm opacity-90 z-50 shadow-lg">
           Tap card to enable tilt effect
@@ -542,8 +970,59 @@ function DigitalLicence() {
   );
 }
 
+// Snippets import the card as `import { DigitalLicence } from "./App"`
+const PLAYGROUND_MODULES = { ...SNIPPET_MODULES, "./App": { DigitalLicence } };
+
 // Preview frame
 export default function App() {
+  const [sampleKey, setSampleKey] = React.useState("trevor");
+  const [view, setView] = React.useState<"card" | "playground" | "verifier">("card");
+  const [cardToken, setCardToken] = React.useState<string | null>(null);
+  const [trustedIssuers, setTrustedIssuers] = React.useState<TrustedIssuer[]>([]);
+  const [tiltInput, setTiltInput] = React.useState<TiltInput | null>(null);
+  const [sensitivity, setSensitivity] = React.useState(1.6);
+  const [renderControl, setRenderControl] = React.useState<CardRenderControl | null>(null);
+  const [hologram, setHologram] = React.useState<HologramParams>(DEFAULT_HOLOGRAM);
+  const [serviceOptions, setServiceOptions] = React.useState(DEFAULT_MOCK_SERVICE);
+  const credentialService = React.useMemo(() => createMockCredentialService(serviceOptions), [serviceOptions]);
+  const [deviceSettings, setDeviceSettings] = React.useState(DEFAULT_DEVICE_SETTINGS);
+  const screens = previewScreens(deviceSettings);
+  // Side by side, every card follows whichever one is being tilted
+  const tiltSync = React.useMemo(() => new TiltSync(), []);
+  // Text size applies page-wide, as the browser setting would
+  React.useEffect(() => {
+    const root = document.documentElement;
+    root.style.fontSize = deviceSettings.textScale === 1 ? "" : `${deviceSettings.textScale * 100}%`;
+    return () => {
+      root.style.fontSize = "";
+    };
+  }, [deviceSettings.textScale]);
+  const [importResult, setImportResult] = React.useState<ImportResult | null>(null);
+  // The last good import stays pickable after a later file fails
+  const [imported, setImported] = React.useState<LicenceData | null>(null);
+  const importFile = async (file: File) => {
+    const result = await readLicenceFile(file);
+    setImportResult(result);
+    if ("licence" in result) {
+      setImported(result.licence);
+      setSampleKey("imported");
+    }
+  };
+  const { dragging, dropProps } = useFileDrop(importFile);
+  const licence = sampleKey === "imported" && imported ? imported : SAMPLE_LICENCES[sampleKey];
+  const { route, navigate, back } = useHashRoute();
+  const credentials = walletCredentials(licence);
+  // An unknown deep link shows the wallet rather than an empty frame
+  const openCard = route.screen === "card" ? credentials.find((c) => c.id === route.id) : undefined;
+  const [snippet, setSnippet] = React.useState(loadSnippet);
+  const compiledSnippet = useCompiledSnippet(snippet, PLAYGROUND_MODULES, view === "playground");
+  React.useEffect(() => saveSnippet(snippet), [snippet]);
+
+  React.useEffect(() => {
+    getDevIssuer()
+      .then((issuer) => setTrustedIssuers([{ kid: issuer.kid, name: "NSW (local dev key)", publicJwk: issuer.publicJwk }]))
+      .catch(() => setTrustedIssuers([]));
+  }, []);
   return (
     <main className="min-h-screen bg-gradient-to-b from-slate-950 to-slate-900 text-slate-100 flex items-center justify-center p-6">
       <div className="w-full max-w-5xl">
@@ -551,25 +1030,110 @@ export default function App() {
           <h1 className="text-2xl font-semibold tracking-tight">React Live Preview</h1>
           <div className="inline-flex items-center gap-2 text-sm text-slate-300">
             <IconInfo />
-            <span>Paste your component over the placeholder below.</span>
+            <span>Try your own component in the Playground tab.</span>
           </div>
         </header>
 
         <div className="grid md:grid-cols-2 gap-6">
-          <section className="p-5 rounded-2xl bg-white/5 shadow-xl">
-            <h2 className="text-lg font-medium mb-3">Rendered Component</h2>
+          <section
+            {...dropProps}
+            aria-label="Preview"
+            className={`p-5 rounded-2xl bg-white/5 shadow-xl ${deviceSettings.sideBySide ? "md:col-span-2" : ""} ${
+              dragging ? "ring-2 ring-sky-400" : ""
+            }`}
+          >
+            <div className="flex items-center justify-between mb-3">
+              <h2 className="text-lg font-medium">Rendered Component</h2>
+              <div className="inline-flex rounded-lg bg-slate-800 p-0.5 text-sm">
+                {(["card", "playground", "verifier"] as const).map((v) => (
+                  <button
+                    key={v}
+                    type="button"
+                    onClick={() => setView(v)}
+                    className={`px-3 py-1 rounded-md capitalize ${view === v ? "bg-slate-600" : "text-slate-400"}`}
+                  >
+                    {v}
+                  </button>
+                ))}
+              </div>
+              <select
+                value={sampleKey}
+                onChange={(e) => setSampleKey(e.target.value)}
+                className="bg-slate-800 text-slate-100 text-sm rounded px-2 py-1"
+              >
+                <option value="trevor">Standard record (expired 2021)</option>
+                <option value="multiClass">Several classes + conditions</option>
+                <option value="longName">Long name, no portrait</option>
+                <option value="expiringSoon">Expiring in 12 days</option>
+                <option value="suspended">Suspended</option>
+                <option value="cancelled">Cancelled</option>
+                <option value="learner">Learner (L)</option>
+                <option value="p1">Provisional P1</option>
+                <option value="p2">Provisional P2</option>
+                <option value="rider">Rider (class R)</option>
+                <option value="photoCard">NSW Photo Card</option>
+                {imported && (
+                  <option value="imported">
+                    Imported: {imported.givenNames} {imported.familyName}
+                  </option>
+                )}
+              </select>
+            </div>
             <div className="flex items-center justify-center p-6">
               {/* Your component renders here */}
-              <DigitalLicence />
+              {view === "verifier" ? (
+                <Verifier trustedIssuers={trustedIssuers} currentToken={cardToken} />
+              ) : (
+                <DevicePreview screens={screens}>
+                  {({ viewport }, i) =>
+                    view === "playground" ? (
+                      <SnippetPreview compiled={compiledSnippet} props={{ licence, viewport }} />
+                    ) : openCard ? (
+                      // The first screen drives the panels (motion, export, verifier token)
+                      <DigitalLicence
+                        key={openCard.id}
+                        licence={openCard.licence}
+                        onCredential={i === 0 ? setCardToken : undefined}
+                        ambient
+                        calibration={{ sensitivity }}
+                        onTiltInput={i === 0 ? setTiltInput : undefined}
+                        onRenderControl={i === 0 ? setRenderControl : undefined}
+                        hologram={hologram}
+                        onBack={back}
+                        shareUrl={new URL(routeHash(route), window.location.href).href}
+                        credentialService={credentialService}
+                        perfOverlay={import.meta.env.DEV}
+                        viewport={viewport}
+                        tiltSync={tiltSync}
+                        reducedMotion={deviceSettings.reducedMotion || undefined}
+                        highContrast={deviceSettings.highContrast || undefined}
+                      />
+                    ) : (
+                      <Wallet credentials={credentials} onOpen={navigate} viewport={viewport} />
+                    )
+                  }
+                </DevicePreview>
+              )}
             </div>
           </section>
 
           <section className="p-5 rounded-2xl bg-white/5 shadow-xl space-y-3">
-            <h2 className="text-lg font-medium">Quick Tips</h2>
+            {view === "playground" && (
+              <>
+                <h2 className="text-lg font-medium">Playground</h2>
+                <PlaygroundEditor
+                  source={snippet}
+                  onChange={setSnippet}
+                  compiled={compiledSnippet}
+                  modules={Object.keys(PLAYGROUND_MODULES)}
+                />
+              </>
+            )}
+            <h2 className={`text-lg font-medium ${view === "playground" ? "pt-2" : ""}`}>Quick Tips</h2>
             <ul className="list-disc pl-5 text-slate-300 text-sm space-y-2">
               <li>
-                Keep <code>export default App</code> — replace only the inner component (e.g.,
-                <code>DigitalLicence</code>).
+                Open <strong>Playground</strong> to render your own TSX in place of <code>DigitalLicence</code>; it
+                compiles in the browser, no restart needed.
               </li>
               <li>
                 Need device tilt? Use <code>DeviceMotionEvent</code> or <code>pointermove</code> in your component; the
@@ -581,6 +1145,18 @@ export default function App() {
               </li>
               <li>If something doesn’t show, open the DevTools Console for runtime errors.</li>
             </ul>
+            <h2 className="text-lg font-medium pt-2">Import</h2>
+            <ImportPanel result={importResult} onFile={importFile} />
+            <h2 className="text-lg font-medium pt-2">Device</h2>
+            <DevicePanel settings={deviceSettings} onChange={setDeviceSettings} />
+            <h2 className="text-lg font-medium pt-2">Motion</h2>
+            <MotionPanel input={tiltInput} sensitivity={sensitivity} onSensitivityChange={setSensitivity} />
+            <h2 className="text-lg font-medium pt-2">Hologram</h2>
+            <HologramPanel params={hologram} onChange={setHologram} />
+            <h2 className="text-lg font-medium pt-2">Credential service</h2>
+            <CredentialServicePanel options={serviceOptions} onChange={setServiceOptions} />
+            <h2 className="text-lg font-medium pt-2">Export</h2>
+            <ExportPanel control={renderControl} />
           </section>
         </div>
       </div>
@@ -0,0 +1,178 @@
+// ====== Canvas2D hologram fallback ======
+// Used when WebGL is disabled or the shaders fail. Approximates the shader's
+// iridescence with a tilt-rotated hue sweep plus soft blobs composited with
+// "screen", then the specular highlight and the emblem mask, so the Waratah
+// still shimmers as the card moves.
+
+import { EmblemLoader, drawEmblem, type EmblemState } from "./emblem";
+import { DEFAULT_MAX_DPR, SPECULAR_OPACITY, SPECULAR_STOPS, drawingBufferSize, type HologramSurface } from "./HologramRenderer";
+import { DEFAULT_HOLOGRAM, type HologramParams } from "./hologramPresets";
+
+// Approximation: blobs, hue scale, saturation, tint and opacity carry over; ripples don't
+
+export class CanvasHologramRenderer implements HologramSurface {
+  private tilt = { x: 0.5, y: 0.5 };
+  private size = { width: 414, height: 896 };
+  private disposed = false;
+  private emblem: EmblemState = null;
+  private emblemLoader = new EmblemLoader((emblem) => {
+    this.emblem = emblem;
+    this.render();
+  });
+  private params = DEFAULT_HOLOGRAM;
+  private scale = 1;
+  private devicePixelRatio: number | null = null;
+
+  /** Returns null when the canvas already holds another context type. */
+  static create(
+    canvas: HTMLCanvasElement,
+    options: {
+      maxDpr?: number;
+      devicePixelRatio?: number;
+      emblem?: string | null;
+      params?: HologramParams;
+      onFrame?: (ms: number) => void;
+    } = {}
+  ) {
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return null;
+    const surface = new CanvasHologramRenderer(canvas, ctx, options.maxDpr ?? DEFAULT_MAX_DPR, options.onFrame);
+    if (options.params) surface.params = options.params;
+    if (options.devicePixelRatio) surface.devicePixelRatio = options.devicePixelRatio;
+    surface.setEmblem(options.emblem ?? null);
+    return surface;
+  }
+
+  private constructor(
+    readonly canvas: HTMLCanvasElement,
+    private readonly ctx: CanvasRenderingContext2D,
+    private readonly maxDpr: number,
+    private readonly onFrame?: (ms: number) => void
+  ) {}
+
+  setParams(params: HologramParams) {
+    this.params = params;
+    this.render();
+  }
+
+  setEmblem(url: string | null) {
+    this.emblemLoader.set(url);
+  }
+
+  setTilt(x: number, y: number) {
+    this.tilt.x = x;
+    this.tilt.y = y;
+    this.render();
+  }
+
+  resize(width: number, height: number, devicePixelRatio?: number) {
+    this.size.width = width;
+    this.size.height = height;
+    if (devicePixelRatio) this.devicePixelRatio = devicePixelRatio;
+    this.render();
+  }
+
+  setResolutionScale(scale: number) {
+    if (scale === this.scale) return;
+    this.scale = scale;
+    this.render();
+  }
+
+  render() {
+    if (this.disposed) return;
+    const { ctx, canvas } = this;
+    const startedAt = performance.now();
+    const { width: w, height: h } = drawingBufferSize(
+      this.size.width,
+      this.size.height,
+      this.devicePixelRatio ?? window.devicePixelRatio,
+      this.maxDpr,
+      this.scale
+    );
+    if (canvas.width !== w || canvas.height !== h) {
+      canvas.width = w;
+      canvas.height = h;
+    }
+    // Nothing to show until the emblem that shapes the hologram has loaded
+    const emblem = this.emblem;
+    if (emblem === "pending") {
+      ctx.clearRect(0, 0, w, h);
+      return;
+    }
+
+    const tx = this.tilt.x - 0.5,
+      ty = this.tilt.y - 0.5;
+    const { blobs, hueScale, saturation, opacity, tint } = this.params;
+    const sat = Math.round(saturation * 100);
+    // The shader's default hue scale (0.34) corresponds to this sweep
+    const hueShift = (tx - ty) * 220 * (hueScale / 0.34);
+
+    // Base sweep: direction follows tilt, hues cycle as in the shader's fract(f*0.34)
+    const angle = Math.PI / 4 + tx * 1.6 - ty * 1.2;
+    const cx = w / 2,
+      cy = h / 2,
+      reach = Math.hypot(w, h) / 2;
+    const sweep = ctx.createLinearGradient(
+      cx - Math.cos(angle) * reach,
+      cy - Math.sin(angle) * reach,
+      cx + Math.cos(angle) * reach,
+      cy + Math.sin(angle) * reach
+    );
+    for (let i = 0; i <= 6; i++) {
+      sweep.addColorStop(i / 6, `hsl(${(((i * 60 + hueShift) % 360) + 360) % 360}, ${sat}%, 62%)`);
+    }
+    ctx.globalCompositeOperation = "source-over";
+    ctx.fillStyle = sweep;
+    ctx.fillRect(0, 0, w, h);
+
+    ctx.globalCompositeOperation = "screen";
+    blobs.forEach((b, i) => {
+      const bx = (b.x + tx * b.k) * w;
+      const by = (b.y + ty * b.k) * h;
+      const r = b.r * Math.max(w, h);
+      const g = ctx.createRadialGradient(bx, by, 0, bx, by, r);
+      const hue = (((i * 57 + hueShift * 1.4) % 360) + 360) % 360;
+      g.addColorStop(0, `hsla(${hue}, ${sat}%, 78%, 0.85)`);
+      g.addColorStop(1, `hsla(${hue}, ${sat}%, 60%, 0)`);
+      ctx.fillStyle = g;
+      ctx.fillRect(0, 0, w, h);
+    });
+
+    if (tint) {
+      ctx.globalCompositeOperation = "color";
+      ctx.globalAlpha = tint.amount;
+      ctx.fillStyle = tint.color;
+      ctx.fillRect(0, 0, w, h);
+      ctx.globalAlpha = 1;
+    }
+
+    // Specular: same falloff as the shader, from the tilt point to the farthest corner
+    const sx = this.tilt.x * w,
+      sy = this.tilt.y * h;
+    const spec = ctx.createRadialGradient(sx, sy, 0, sx, sy, Math.hypot(Math.max(sx, w - sx), Math.max(sy, h - sy)));
+    SPECULAR_STOPS.forEach(([at, alpha]) => spec.addColorStop(at, `rgba(255,255,255,${alpha})`));
+    ctx.globalCompositeOperation = "overlay";
+    ctx.globalAlpha = SPECULAR_OPACITY;
+    ctx.fillStyle = spec;
+    ctx.fillRect(0, 0, w, h);
+    ctx.globalAlpha = 1;
+
+    if (emblem) {
+      ctx.globalCompositeOperation = "destination-in";
+      drawEmblem(ctx, emblem, w, h);
+    }
+    // Scale the whole layer's alpha by the preset opacity
+    ctx.globalCompositeOperation = "destination-in";
+    ctx.globalAlpha = opacity;
+    ctx.fillStyle = "#000";
+    ctx.fillRect(0, 0, w, h);
+    ctx.globalAlpha = 1;
+    ctx.globalCompositeOperation = "source-over";
+    this.onFrame?.(performance.now() - startedAt);
+  }
+
+  dispose() {
+    this.disposed = true;
+    this.emblemLoader.dispose();
+  }
+}
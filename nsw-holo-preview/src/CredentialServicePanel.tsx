@@ -0,0 +1,43 @@
+import React from "react";
+import type { MockServiceOptions } from "./credentialService";
+
+type Options = Required<Pick<MockServiceOptions, "latencyMs" | "failureRate" | "offline">>;
+
+// Preview-frame controls for the mock credential service behind pull-to-refresh
+export function CredentialServicePanel({ options, onChange }: { options: Options; onChange: (options: Options) => void }) {
+  return (
+    <div className="space-y-3 text-sm text-slate-300">
+      <label className="flex items-center gap-3">
+        <span className="w-24">Latency</span>
+        <input
+          type="range"
+          min={0}
+          max={5000}
+          step={100}
+          value={options.latencyMs}
+          onChange={(e) => onChange({ ...options, latencyMs: Number(e.target.value) })}
+          className="flex-1"
+        />
+        <span className="w-16 text-right tabular-nums">{options.latencyMs} ms</span>
+      </label>
+      <label className="flex items-center gap-3">
+        <span className="w-24">Failure rate</span>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={options.failureRate}
+          onChange={(e) => onChange({ ...options, failureRate: Number(e.target.value) })}
+          className="flex-1"
+        />
+        <span className="w-16 text-right tabular-nums">{Math.round(options.failureRate * 100)}%</span>
+      </label>
+      <label className="flex items-center gap-2">
+        <input type="checkbox" checked={options.offline} onChange={(e) => onChange({ ...options, offline: e.target.checked })} />
+        Offline (every refresh fails)
+      </label>
+      <p className="text-slate-400">Pull the card down, or use Refresh in its menu.</p>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import React from "react";
+import { DEVICE_PROFILES, deviceProfile, type DeviceSettings, type Orientation } from "./deviceProfiles";
+
+const DPR_OPTIONS = [1, 2, 3];
+const TEXT_SCALES = [1, 1.5, 2];
+
+// Preview-frame controls for the screen the card is laid out on: device, rotation, DPR, text size,
+// accessibility modes and side by side
+export function DevicePanel({ settings, onChange }: { settings: DeviceSettings; onChange: (settings: DeviceSettings) => void }) {
+  const toggleCompare = (id: string, on: boolean) =>
+    onChange({
+      ...settings,
+      compareIds: on ? [...settings.compareIds, id] : settings.compareIds.filter((c) => c !== id),
+    });
+  const profileDpr = settings.sideBySide ? "each device's" : `${deviceProfile(settings.deviceId).devicePixelRatio}×`;
+
+  return (
+    <div className="space-y-3 text-sm text-slate-300">
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          aria-label="Device"
+          value={settings.deviceId}
+          disabled={settings.sideBySide}
+          onChange={(e) => onChange({ ...settings, deviceId: e.target.value })}
+          className="bg-slate-800 text-slate-100 rounded px-2 py-1 disabled:opacity-40"
+        >
+          {DEVICE_PROFILES.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.label} ({p.width}×{p.height})
+            </option>
+          ))}
+        </select>
+        <div className="inline-flex rounded-lg bg-slate-800 p-0.5">
+          {(["portrait", "landscape"] as Orientation[]).map((o) => (
+            <button
+              key={o}
+              type="button"
+              aria-pressed={settings.orientation === o}
+              onClick={() => onChange({ ...settings, orientation: o })}
+              className={`px-3 py-1 rounded-md capitalize ${settings.orientation === o ? "bg-slate-600" : "text-slate-400"}`}
+            >
+              {o}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2">
+          DPR
+          <select
+            value={settings.devicePixelRatio ?? ""}
+            onChange={(e) => onChange({ ...settings, devicePixelRatio: e.target.value ? Number(e.target.value) : null })}
+            className="bg-slate-800 text-slate-100 rounded px-2 py-1"
+          >
+            <option value="">Device ({profileDpr})</option>
+            {DPR_OPTIONS.map((dpr) => (
+              <option key={dpr} value={dpr}>
+                {dpr}×
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+        <label className="flex items-center gap-2">
+          Text size
+          <select
+            value={settings.textScale}
+            onChange={(e) => onChange({ ...settings, textScale: Number(e.target.value) })}
+            className="bg-slate-800 text-slate-100 rounded px-2 py-1"
+          >
+            {TEXT_SCALES.map((scale) => (
+              <option key={scale} value={scale}>
+                {scale * 100}%
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.reducedMotion}
+            onChange={(e) => onChange({ ...settings, reducedMotion: e.target.checked })}
+          />
+          Reduce motion
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.highContrast}
+            onChange={(e) => onChange({ ...settings, highContrast: e.target.checked })}
+          />
+          High contrast
+        </label>
+      </div>
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={settings.sideBySide}
+          onChange={(e) => onChange({ ...settings, sideBySide: e.target.checked })}
+        />
+        Side by side (tilt one card, they all follow)
+      </label>
+      {settings.sideBySide && (
+        <fieldset className="flex flex-wrap gap-x-4 gap-y-1 pl-6">
+          <legend className="sr-only">Devices to compare</legend>
+          {DEVICE_PROFILES.map((p) => (
+            <label key={p.id} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={settings.compareIds.includes(p.id)}
+                onChange={(e) => toggleCompare(p.id, e.target.checked)}
+              />
+              {p.label}
+            </label>
+          ))}
+        </fieldset>
+      )}
+    </div>
+  );
+}
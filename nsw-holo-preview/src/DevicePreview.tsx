@@ -0,0 +1,63 @@
+import React from "react";
+import { fitScale, type DeviceProfile, type DeviceViewport } from "./deviceProfiles";
+
+const GAP = 24;
+
+export interface PreviewScreen {
+  profile: DeviceProfile;
+  viewport: DeviceViewport;
+}
+
+// Screens in a row at their real CSS size, zoomed out together to fit the
+// column. Layout inside each screen is untouched by the zoom, so breakage on
+// small devices shows exactly as it would on the phone.
+export function DevicePreview({
+  screens,
+  children,
+}: {
+  screens: PreviewScreen[];
+  children: (screen: PreviewScreen, index: number) => React.ReactNode;
+}) {
+  const rowRef = React.useRef<HTMLDivElement | null>(null);
+  const [available, setAvailable] = React.useState<number | null>(null);
+
+  React.useEffect(() => {
+    const el = rowRef.current;
+    if (!el || typeof ResizeObserver === "undefined") return;
+    const observer = new ResizeObserver(() => setAvailable(el.clientWidth));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  const scale = available ? fitScale(screens.map((s) => s.viewport), available, GAP) : 1;
+  return (
+    <div ref={rowRef} className="flex w-full items-start justify-center" style={{ gap: GAP }}>
+      {screens.map((screen, i) => {
+        const { profile, viewport } = screen;
+        return (
+          // Keyed by position so changing device resizes the card rather than remounting it
+          <figure key={i} className="shrink-0">
+            <div className="relative" style={{ width: viewport.width * scale, height: viewport.height * scale }}>
+              <div
+                data-testid="device-screen"
+                className="absolute left-0 top-0 overflow-hidden ring-1 ring-slate-600"
+                style={{
+                  width: viewport.width,
+                  height: viewport.height,
+                  borderRadius: viewport.cornerRadius,
+                  transform: `scale(${scale})`,
+                  transformOrigin: "top left",
+                }}
+              >
+                {children(screen, i)}
+              </div>
+            </div>
+            <figcaption className="mt-2 text-center text-xs text-slate-400">
+              {profile.label} · {viewport.width}×{viewport.height} @{viewport.devicePixelRatio}x
+            </figcaption>
+          </figure>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import React from "react";
+import { tiltSweep, type CardRenderControl, type Tilt } from "./cardSnapshot";
+import { downloadBlob } from "./download";
+import { createZip } from "./zip";
+
+const tiltLabel = (t: Tilt) => `x${Math.round(t.x)}-y${Math.round(t.y)}`;
+
+// Preview-frame controls for pixel-exact stills: freeze at a tilt, export PNG or a sweep
+export function ExportPanel({ control }: { control: CardRenderControl | null }) {
+  const [tilt, setTilt] = React.useState<Tilt>({ x: 50, y: 50 });
+  const [hold, setHold] = React.useState(false);
+  const [frames, setFrames] = React.useState(24);
+  const [busy, setBusy] = React.useState(false);
+  const [message, setMessage] = React.useState<string | null>(null);
+
+  // Holding re-freezes on every slider change so the live card shows the still
+  React.useEffect(() => {
+    if (!control || !hold) return;
+    control.freeze(tilt);
+    return () => control.freeze(null);
+  }, [control, hold, tilt.x, tilt.y]);
+
+  const run = async (label: string, job: (control: CardRenderControl) => Promise<void>) => {
+    if (!control) return;
+    setBusy(true);
+    setMessage(label);
+    try {
+      await job(control);
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : String(err));
+      return;
+    } finally {
+      control.freeze(hold ? tilt : null);
+      setBusy(false);
+    }
+    setMessage("Export finished.");
+  };
+
+  const exportStill = () =>
+    run("Rendering…", async (c) => {
+      c.freeze(tilt);
+      downloadBlob(`licence-${tiltLabel(tilt)}.png`, await c.capture());
+    });
+
+  // Horizontal sweep across the full tilt range at the chosen vertical tilt
+  const exportSweep = () =>
+    run(`Rendering ${frames} frames…`, async (c) => {
+      const tilts = tiltSweep({ x: 10, y: tilt.y }, { x: 90, y: tilt.y }, frames);
+      const entries = [];
+      for (const [i, t] of tilts.entries()) {
+        c.freeze(t);
+        const png = new Uint8Array(await (await c.capture()).arrayBuffer());
+        entries.push({ name: `frame-${String(i).padStart(3, "0")}-${tiltLabel(t)}.png`, data: png });
+        setMessage(`Rendered ${i + 1}/${tilts.length} frames…`);
+      }
+      downloadBlob("licence-sweep.zip", new Blob([createZip(entries)], { type: "application/zip" }));
+    });
+
+  const button = "rounded-lg bg-slate-700 px-3 py-1.5 hover:bg-slate-600 disabled:opacity-40";
+  const slider = (axis: keyof Tilt, label: string) => (
+    <label className="flex items-center gap-3">
+      <span className="w-24">{label}</span>
+      <input
+        type="range"
+        min={10}
+        max={90}
+        step={1}
+        value={tilt[axis]}
+        onChange={(e) => setTilt((t) => ({ ...t, [axis]: Number(e.target.value) }))}
+        className="flex-1"
+      />
+      <span className="w-8 text-right tabular-nums">{tilt[axis]}</span>
+    </label>
+  );
+
+  return (
+    <div className="space-y-3 text-sm text-slate-300">
+      {slider("x", "Tilt X")}
+      {slider("y", "Tilt Y")}
+      <label className="flex items-center gap-2">
+        <input type="checkbox" checked={hold} onChange={(e) => setHold(e.target.checked)} disabled={!control} />
+        Hold card at this tilt
+      </label>
+      <div className="flex flex-wrap items-center gap-2">
+        <button type="button" className={button} disabled={!control || busy} onClick={exportStill}>
+          Export PNG
+        </button>
+        <button type="button" className={button} disabled={!control || busy} onClick={exportSweep}>
+          Export sweep
+        </button>
+        <label className="flex items-center gap-2">
+          <input
+            type="number"
+            min={2}
+            max={120}
+            value={frames}
+            onChange={(e) => setFrames(Math.max(2, Math.min(120, Number(e.target.value) || 2)))}
+            className="w-16 rounded bg-slate-800 px-2 py-1 text-slate-100"
+          />
+          frames
+        </label>
+      </div>
+      {message && <p className="text-slate-400">{message}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+import React from "react";
+import { CanvasHologramRenderer } from "./CanvasHologramRenderer";
+import { DEFAULT_EMBLEM } from "./emblem";
+import type { FramePerf } from "./framePerf";
+import { DEFAULT_HOLOGRAM, type HologramParams } from "./hologramPresets";
+import { DEFAULT_MAX_DPR, HologramRenderer, ShaderError, type HologramSurface } from "./HologramRenderer";
+import { WorkerHologramSurface } from "./WorkerHologramSurface";
+
+interface HologramLayerProps {
+  /** Receives the active surface so the card's animation loop can drive tilt. */
+  surfaceRef: React.MutableRefObject<HologramSurface | null>;
+  /** Element whose size the hologram covers. */
+  containerRef: React.RefObject<HTMLElement>;
+  /** Current tilt in percent (0..100), applied when a surface is created. */
+  tiltRef: React.RefObject<{ x: number; y: number }>;
+  /** "auto" tries WebGL first; "canvas2d" skips straight to the fallback. */
+  mode?: "auto" | "canvas2d";
+  /** Shape the hologram is cut to (see emblem.ts); null shows it unmasked. */
+  emblem?: string | null;
+  /** Foil look; updates apply without recreating the surface. */
+  params?: HologramParams;
+  /** Draw in a Web Worker via OffscreenCanvas where supported; off forces the main thread. */
+  offscreen?: boolean;
+  /** Upper bound for devicePixelRatio; fixed at surface creation. */
+  maxDpr?: number;
+  /** Simulated DPR (device profiles in the preview); defaults to the window's. */
+  devicePixelRatio?: number;
+  /** Receives frame timings and drives the adaptive resolution scale. */
+  perf?: FramePerf;
+}
+
+interface HologramCanvasProps extends Omit<HologramLayerProps, "mode"> {
+  /** "worker" and "auto" are WebGL (off/on the main thread); "canvas2d" is the fallback. */
+  mode: "worker" | "auto" | "canvas2d";
+  /** The worker reported it can't draw; its canvas was transferred, so a fresh one is needed. */
+  onWorkerFailed: () => void;
+}
+
+// Canvas that hosts whichever hologram implementation the browser can run
+function HologramCanvas({
+  surfaceRef,
+  containerRef,
+  tiltRef,
+  mode,
+  emblem = DEFAULT_EMBLEM,
+  params = DEFAULT_HOLOGRAM,
+  maxDpr = DEFAULT_MAX_DPR,
+  devicePixelRatio,
+  perf,
+  onWorkerFailed,
+}: HologramCanvasProps) {
+  const canvasRef = React.useRef<HTMLCanvasElement | null>(null);
+  // Read at creation; later changes go through the setters below
+  const emblemRef = React.useRef(emblem);
+  emblemRef.current = emblem;
+  const paramsRef = React.useRef(params);
+  paramsRef.current = params;
+  const onWorkerFailedRef = React.useRef(onWorkerFailed);
+  onWorkerFailedRef.current = onWorkerFailed;
+  const dprRef = React.useRef(devicePixelRatio);
+  dprRef.current = devicePixelRatio;
+  // New canvas element per bump; see the worker branch below
+  const [generation, setGeneration] = React.useState(0);
+
+  React.useEffect(() => {
+    if (!canvasRef.current) return;
+    const canvas = canvasRef.current;
+
+    const common = {
+      maxDpr,
+      devicePixelRatio,
+      emblem: emblemRef.current,
+      params: paramsRef.current,
+      onFrame: perf?.record,
+      onContextChange: (state: "lost" | "restored") => console.warn(`Hologram WebGL context ${state}`),
+    };
+    let surface: HologramSurface | null = null;
+    // Overlay label: the worker, the WebGL version on the main thread, or canvas2d
+    let renderer: string = mode;
+    if (mode === "worker") {
+      if (!WorkerHologramSurface.canTransfer(canvas)) {
+        // StrictMode re-runs effects on the same element, whose control went to the old worker
+        setGeneration((g) => g + 1);
+        return;
+      }
+      surface = WorkerHologramSurface.create(canvas, {
+        ...common,
+        onFailure: (reason, message) => {
+          console.warn(`Hologram worker failed (${reason}); drawing on the main thread.`, message);
+          onWorkerFailedRef.current();
+        },
+      });
+    } else if (mode === "auto") {
+      // Shader errors throw from here and are caught by HologramBoundary
+      const webgl = HologramRenderer.create(canvas, common);
+      if (webgl) renderer = webgl.contextType;
+      else console.warn("WebGL not available; using Canvas2D hologram");
+      surface = webgl;
+    }
+    if (!surface) {
+      surface = CanvasHologramRenderer.create(canvas, common);
+      renderer = "canvas2d";
+    }
+    if (!surface) return;
+    surfaceRef.current = surface;
+    if (perf) {
+      perf.renderer = renderer;
+      surface.setResolutionScale(perf.scale);
+      perf.onScaleChange = (scale) => surface!.setResolutionScale(scale);
+    }
+
+    const onResize = () => {
+      surface!.resize(
+        containerRef.current?.clientWidth ?? 414,
+        containerRef.current?.clientHeight ?? 896,
+        dprRef.current
+      );
+    };
+    // Card height changes with content (flip, long names), not just the window
+    const observer = typeof ResizeObserver !== "undefined" ? new ResizeObserver(onResize) : null;
+    if (containerRef.current) observer?.observe(containerRef.current);
+    window.addEventListener("resize", onResize);
+    onResize();
+    if (tiltRef.current) surface.setTilt(tiltRef.current.x / 100, tiltRef.current.y / 100);
+
+    return () => {
+      observer?.disconnect();
+      window.removeEventListener("resize", onResize);
+      surface!.dispose();
+      if (surfaceRef.current === surface) surfaceRef.current = null;
+      if (perf?.onScaleChange) perf.onScaleChange = null;
+    };
+  }, [mode, generation]);
+
+  React.useEffect(() => {
+    const el = containerRef.current;
+    if (el && devicePixelRatio) surfaceRef.current?.resize(el.clientWidth, el.clientHeight, devicePixelRatio);
+  }, [devicePixelRatio]);
+
+  React.useEffect(() => {
+    surfaceRef.current?.setEmblem(emblem);
+  }, [emblem]);
+
+  React.useEffect(() => {
+    surfaceRef.current?.setParams(params);
+  }, [params]);
+
+  return <canvas key={generation} ref={canvasRef} className="holo-canvas" data-hologram={mode} aria-hidden="true" />;
+}
+
+/**
+ * Picks the surface: worker, then main-thread WebGL, then Canvas2D. Each step
+ * down gets a fresh canvas, since a canvas keeps the first context (or
+ * offscreen transfer) it was given.
+ */
+class HologramBoundary extends React.Component<HologramLayerProps, { failed: boolean; workerFailed: boolean }> {
+  state = { failed: false, workerFailed: false };
+
+  static getDerivedStateFromError() {
+    return { failed: true };
+  }
+
+  componentDidCatch(error: unknown) {
+    if (error instanceof ShaderError) {
+      console.error("Hologram shader failed; falling back to Canvas2D.\n" + error.infoLog);
+    } else {
+      console.error("Hologram failed; falling back to Canvas2D.", error);
+    }
+  }
+
+  private onWorkerFailed = () => this.setState({ workerFailed: true });
+
+  render() {
+    const { mode = "auto", offscreen = true, ...props } = this.props;
+    const canvasMode =
+      this.state.failed || mode === "canvas2d"
+        ? "canvas2d"
+        : offscreen && !this.state.workerFailed && typeof Worker !== "undefined" && offscreenCanvasSupported()
+          ? "worker"
+          : "auto";
+    return <HologramCanvas key={canvasMode} {...props} mode={canvasMode} onWorkerFailed={this.onWorkerFailed} />;
+  }
+}
+
+const offscreenCanvasSupported = () =>
+  typeof HTMLCanvasElement !== "undefined" && "transferControlToOffscreen" in HTMLCanvasElement.prototype;
+
+export function HologramLayer(props: HologramLayerProps) {
+  return <HologramBoundary {...props} />;
+}
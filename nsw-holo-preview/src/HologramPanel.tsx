@@ -0,0 +1,141 @@
+import React from "react";
+import { downloadJson } from "./download";
+import {
+  HOLOGRAM_PRESETS,
+  PARAM_RANGES,
+  parseHologramPreset,
+  serializePreset,
+  type HologramBlob,
+  type HologramParams,
+  type HologramPresetId,
+} from "./hologramPresets";
+
+const SCALARS: { key: keyof typeof PARAM_RANGES; label: string }[] = [
+  { key: "hueScale", label: "Hue scale" },
+  { key: "saturation", label: "Saturation" },
+  { key: "ripples", label: "Ripples" },
+  { key: "opacity", label: "Opacity" },
+];
+
+const BLOB_RANGES: Record<keyof HologramBlob, { min: number; max: number }> = {
+  x: { min: 0, max: 1 },
+  y: { min: 0, max: 1 },
+  r: { min: 0.02, max: 0.5 },
+  k: { min: 0, max: 0.5 },
+};
+
+// Preview-frame tuning for the hologram shader: presets, sliders, JSON in/out
+export function HologramPanel({
+  params,
+  onChange,
+}: {
+  params: HologramParams;
+  onChange: (params: HologramParams) => void;
+}) {
+  const [presetId, setPresetId] = React.useState<HologramPresetId | "imported">("classic");
+  const [imported, setImported] = React.useState<{ name: string; params: HologramParams } | null>(null);
+  const [message, setMessage] = React.useState<string | null>(null);
+
+  const base = presetId === "imported" ? imported! : HOLOGRAM_PRESETS[presetId];
+  const modified = params !== base.params;
+
+  const choose = (id: HologramPresetId | "imported") => {
+    setPresetId(id);
+    setMessage(null);
+    onChange(id === "imported" ? imported!.params : HOLOGRAM_PRESETS[id].params);
+  };
+
+  const setScalar = (key: keyof typeof PARAM_RANGES, value: number) => onChange({ ...params, [key]: value });
+  const setBlob = (index: number, key: keyof HologramBlob, value: number) =>
+    onChange({ ...params, blobs: params.blobs.map((b, i) => (i === index ? { ...b, [key]: value } : b)) });
+
+  const exportPreset = () => {
+    const name = modified ? `${base.name} (tuned)` : base.name;
+    downloadJson(`hologram-${name.toLowerCase().replace(/[^a-z0-9]+/g, "-")}.json`, serializePreset({ name, params }));
+  };
+
+  const onFile = async (ev: React.ChangeEvent<HTMLInputElement>) => {
+    const file = ev.target.files?.[0];
+    ev.target.value = "";
+    if (!file) return;
+    try {
+      const preset = parseHologramPreset(await file.text());
+      setImported(preset);
+      setPresetId("imported");
+      onChange(preset.params);
+      setMessage(`Loaded “${preset.name}”.`);
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const button = "rounded-lg bg-slate-700 px-3 py-1.5 hover:bg-slate-600 disabled:opacity-40";
+  const slider = (label: string, value: number, range: { min: number; max: number; step?: number }, set: (v: number) => void) => (
+    <label key={label} className="flex items-center gap-3">
+      <span className="w-24">{label}</span>
+      <input
+        type="range"
+        min={range.min}
+        max={range.max}
+        step={range.step ?? 0.01}
+        value={value}
+        onChange={(e) => set(Number(e.target.value))}
+        className="flex-1"
+      />
+      <span className="w-10 text-right tabular-nums">{Number.isInteger(value) ? value : value.toFixed(2)}</span>
+    </label>
+  );
+
+  return (
+    <div className="space-y-3 text-sm text-slate-300">
+      <label className="flex items-center gap-3">
+        <span className="w-24">Preset</span>
+        <select
+          value={presetId}
+          onChange={(e) => choose(e.target.value as HologramPresetId | "imported")}
+          className="flex-1 bg-slate-800 text-slate-100 rounded px-2 py-1"
+        >
+          {(Object.keys(HOLOGRAM_PRESETS) as HologramPresetId[]).map((id) => (
+            <option key={id} value={id}>
+              {HOLOGRAM_PRESETS[id].name}
+            </option>
+          ))}
+          {imported && <option value="imported">{imported.name}</option>}
+        </select>
+        <span className="w-10 text-right text-slate-400">{modified ? "edited" : ""}</span>
+      </label>
+      {SCALARS.map(({ key, label }) => slider(label, params[key], PARAM_RANGES[key], (v) => setScalar(key, v)))}
+      <details>
+        <summary className="cursor-pointer text-slate-400">Blobs</summary>
+        <div className="mt-2 space-y-3">
+          {params.blobs.map((b, i) => (
+            <fieldset key={i} className="space-y-1 border-t border-slate-700 pt-2">
+              <legend className="text-xs text-slate-400">Blob {i + 1}</legend>
+              {(Object.keys(BLOB_RANGES) as (keyof HologramBlob)[]).map((key) =>
+                slider(
+                  { x: "Centre x", y: "Centre y", r: "Radius", k: "Parallax" }[key],
+                  b[key],
+                  BLOB_RANGES[key],
+                  (v) => setBlob(i, key, v)
+                )
+              )}
+            </fieldset>
+          ))}
+        </div>
+      </details>
+      <div className="flex flex-wrap gap-2">
+        <button type="button" className={button} disabled={!modified} onClick={() => onChange(base.params)}>
+          Reset
+        </button>
+        <button type="button" className={button} onClick={exportPreset}>
+          Export JSON
+        </button>
+        <label className={`${button} cursor-pointer`}>
+          Import JSON…
+          <input type="file" accept="application/json,.json" className="hidden" onChange={onFile} />
+        </label>
+      </div>
+      {message && <p className="text-slate-400">{message}</p>}
+    </div>
+  );
+}
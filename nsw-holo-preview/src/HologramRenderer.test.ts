@@ -0,0 +1,110 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { HologramRenderer, ShaderError } from "./HologramRenderer";
+import { HOLOGRAM_PRESETS } from "./hologramPresets";
+import { installWebGLStub } from "./test/webglStub";
+
+let stub: ReturnType<typeof installWebGLStub>;
+afterEach(() => stub?.restore());
+
+describe("HologramRenderer", () => {
+  it("prefers WebGL2 and falls back to WebGL1", () => {
+    stub = installWebGLStub({ support: ["webgl"] });
+    const renderer = HologramRenderer.create(document.createElement("canvas"));
+    expect(renderer?.contextType).toBe("webgl");
+    stub.restore();
+
+    stub = installWebGLStub();
+    expect(HologramRenderer.create(document.createElement("canvas"))?.contextType).toBe("webgl2");
+  });
+
+  it("returns null when WebGL is unavailable", () => {
+    stub = installWebGLStub({ support: [] });
+    expect(HologramRenderer.create(document.createElement("canvas"))).toBeNull();
+  });
+
+  it("draws with the tilt and resolution uniforms", () => {
+    stub = installWebGLStub();
+    const renderer = HologramRenderer.create(document.createElement("canvas"), { maxDpr: 1 })!;
+    renderer.resize(200, 100);
+    renderer.setTilt(0.25, 0.75);
+    const [gl] = stub.contexts;
+    expect(gl.uniforms.u_tilt).toEqual([0.25, 0.75]);
+    expect(gl.uniforms.u_resolution).toEqual([200, 100]);
+    expect(gl.canvas.width).toBe(200);
+    expect(gl.calls.filter((c) => c.name === "drawArrays").length).toBeGreaterThan(0);
+  });
+
+  it("feeds preset parameters to the shader uniforms", () => {
+    stub = installWebGLStub();
+    const renderer = HologramRenderer.create(document.createElement("canvas"))!;
+    const [gl] = stub.contexts;
+    renderer.resize(200, 100);
+    expect(gl.uniforms.u_ripples).toEqual([36]);
+    expect(gl.uniforms.u_blobs).toHaveLength(24);
+    expect(gl.uniforms.u_blobs[2]).toBeCloseTo(0.26);
+
+    const { params } = HOLOGRAM_PRESETS.subtle;
+    renderer.setParams(params);
+    expect(gl.uniforms.u_opacity[0]).toBeCloseTo(params.opacity);
+    expect(gl.uniforms.u_hueScale[0]).toBeCloseTo(params.hueScale);
+    expect(gl.uniforms.u_saturation[0]).toBeCloseTo(params.saturation);
+    expect(gl.uniforms.u_tint).toEqual([0, 0, 0, 0]);
+
+    renderer.setParams({ ...params, tint: { color: "#ff0000", amount: 0.4 } });
+    expect(gl.uniforms.u_tint.map((v) => +v.toFixed(2))).toEqual([1, 0, 0, 0.4]);
+  });
+
+  it("scales the drawing buffer by the capped DPR and resolution scale", () => {
+    stub = installWebGLStub();
+    const onFrame = vi.fn();
+    const renderer = HologramRenderer.create(document.createElement("canvas"), { devicePixelRatio: 3, onFrame })!;
+    const [gl] = stub.contexts;
+    renderer.resize(200, 100);
+    expect([gl.canvas.width, gl.canvas.height]).toEqual([400, 200]);
+    renderer.setResolutionScale(0.5);
+    expect([gl.canvas.width, gl.canvas.height]).toEqual([200, 100]);
+    expect(onFrame).toHaveBeenCalledTimes(2);
+  });
+
+  it("keeps the surface blank while an emblem mask is pending", () => {
+    stub = installWebGLStub();
+    const renderer = HologramRenderer.create(document.createElement("canvas"))!;
+    const [gl] = stub.contexts;
+    renderer.resize(200, 100);
+    expect(gl.uniforms.u_hasMask).toEqual([0]);
+    expect(gl.uniforms.u_mask).toEqual([0]);
+
+    renderer.setEmblem("/emblem.svg");
+    expect(gl.uniforms.u_hasMask).toEqual([1]);
+    renderer.setEmblem(null);
+    expect(gl.uniforms.u_hasMask).toEqual([0]);
+  });
+
+  it("surfaces the shader info log on compile failure", () => {
+    stub = installWebGLStub({ compileError: "ERROR: 0:12: 'u_tilt' : undeclared identifier" });
+    try {
+      HologramRenderer.create(document.createElement("canvas"));
+      expect.unreachable();
+    } catch (err) {
+      expect(err).toBeInstanceOf(ShaderError);
+      expect((err as ShaderError).infoLog).toContain("undeclared identifier");
+    }
+  });
+
+  it("rebuilds resources after the context is restored", () => {
+    stub = installWebGLStub();
+    const renderer = HologramRenderer.create(document.createElement("canvas"))!;
+    const [gl] = stub.contexts;
+    const programsBefore = gl.calls.filter((c) => c.name === "createProgram").length;
+
+    stub.loseContext(gl);
+    const drawsWhileLost = gl.calls.filter((c) => c.name === "drawArrays").length;
+    renderer.setTilt(0.6, 0.6);
+    expect(gl.calls.filter((c) => c.name === "drawArrays").length).toBe(drawsWhileLost);
+
+    stub.restoreContext(gl);
+    expect(gl.calls.filter((c) => c.name === "createProgram").length).toBe(programsBefore + 1);
+    expect(gl.uniforms.u_tilt).toEqual([0.6, 0.6]);
+    renderer.dispose();
+  });
+});
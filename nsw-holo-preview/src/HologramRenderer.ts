@@ -0,0 +1,419 @@
+// ====== Hologram renderer (raw WebGL, no three.js) ======
+// Owns the GL context, shader program and buffers for one canvas. Prefers
+// WebGL2 and falls back to WebGL1; the GLSL 100 shaders compile on both.
+// The emblem mask and the specular highlight are applied in the same pass.
+// Nothing here needs the DOM once the mask is rasterised, so the same class
+// draws into an OffscreenCanvas inside the hologram worker.
+import { EmblemLoader, rasterizeEmblem } from "./emblem";
+import { BLOB_COUNT, DEFAULT_HOLOGRAM, packBlobs, packTint, type HologramParams } from "./hologramPresets";
+
+type GL = WebGLRenderingContext | WebGL2RenderingContext;
+
+/** What the card needs from any hologram implementation (WebGL or fallback). */
+export interface HologramSurface {
+  /** Element being drawn into; snapshots read pixels back from it. */
+  readonly canvas: HTMLCanvasElement;
+  setTilt(x: number, y: number): void;
+  /** Layout size in CSS pixels; `devicePixelRatio` replaces the window's (simulated devices). */
+  resize(width: number, height: number, devicePixelRatio?: number): void;
+  /** Shape the hologram shows through (see emblem.ts); null covers the whole surface. */
+  setEmblem(url: string | null): void;
+  /** Look of the foil (see hologramPresets.ts). */
+  setParams(params: HologramParams): void;
+  /** Fraction of the capped DPR to render at (adaptive resolution); 1 is full. */
+  setResolutionScale(scale: number): void;
+  /** The last frame as an image, for surfaces whose `canvas` can't be read back directly. */
+  snapshot?(): Promise<CanvasImageSource>;
+  dispose(): void;
+}
+
+/** Default cap on devicePixelRatio: the foil has no detail finer than 2× pixels. */
+export const DEFAULT_MAX_DPR = 2;
+
+/** Drawing-buffer size for a layout size; shared with the main thread, which rasterises masks to match. */
+export function drawingBufferSize(width: number, height: number, devicePixelRatio: number, maxDpr = DEFAULT_MAX_DPR, scale = 1) {
+  const dpr = Math.min(maxDpr, devicePixelRatio || 1) * scale;
+  return { width: Math.max(1, Math.floor(width * dpr)), height: Math.max(1, Math.floor(height * dpr)) };
+}
+
+/** Emblem mask drawn at a drawing-buffer size, ready for `texImage2D`. */
+export type MaskRasterizer = (width: number, height: number) => TexImageSource;
+
+/** Compile/link failure; `infoLog` is the driver's log, kept for diagnostics. */
+export class ShaderError extends Error {
+  constructor(stage: "compile" | "link", readonly infoLog: string) {
+    super(stage === "compile" ? "Shader compile failed: " + infoLog : "Program link failed: " + infoLog);
+    this.name = "ShaderError";
+  }
+}
+
+export interface HologramRendererOptions {
+  /** Upper bound for devicePixelRatio when sizing the drawing buffer. */
+  maxDpr?: number;
+  /** Device pixel ratio; required in a worker, which has no `window`. */
+  devicePixelRatio?: number;
+  /** Called after each draw with its CPU time in ms, for frame stats. */
+  onFrame?: (ms: number) => void;
+  /** Notified when the browser drops or restores the GL context. */
+  onContextChange?: (state: "lost" | "restored") => void;
+  /** Initial emblem mask URL. */
+  emblem?: string | null;
+  /** Initial look; defaults to the classic preset. */
+  params?: HologramParams;
+}
+
+/**
+ * Specular highlight around the tilt point: [distance, white alpha] stops, with
+ * distance a fraction of the farthest corner. Blended as "overlay" at SPECULAR_OPACITY.
+ */
+export const SPECULAR_STOPS = [
+  [0, 0.98],
+  [0.22, 0.6],
+  [0.46, 0],
+] as const;
+export const SPECULAR_OPACITY = 0.6;
+
+const glsl = (n: number) => n.toFixed(3);
+const [[, A0], [S1, A1], [S2, A2]] = SPECULAR_STOPS;
+
+const VERTEX_SHADER = `
+  attribute vec2 a_position;
+  varying vec2 vUv;
+  void main(){
+    vUv = a_position * 0.5 + 0.5;
+    gl_Position = vec4(a_position, 0.0, 1.0);
+  }
+`;
+
+const FRAGMENT_SHADER = `
+  precision highp float;
+  varying vec2 vUv;
+  uniform vec2 u_tilt;
+  uniform vec2 u_resolution;
+  uniform sampler2D u_mask;
+  uniform float u_hasMask;
+  // Tunables, see hologramPresets.ts
+  uniform vec4 u_blobs[${BLOB_COUNT}]; // x, y, radius, tilt parallax
+  uniform float u_hueScale;
+  uniform float u_saturation;
+  uniform float u_ripples;
+  uniform float u_opacity;
+  uniform vec4 u_tint; // rgb, amount
+
+  float hash(vec2 p){ return fract(sin(dot(p, vec2(127.1,311.7))) * 43758.5453123); }
+  float noise(vec2 p){
+    vec2 i=floor(p), f=fract(p);
+    float a=hash(i), b=hash(i+vec2(1.,0.)), c=hash(i+vec2(0.,1.)), d=hash(i+vec2(1.,1.));
+    vec2 u=f*f*(3.-2.*f);
+    return mix(a,b,u.x)+(c-a)*u.y*(1.-u.x)+(d-b)*u.x*u.y;
+  }
+  mat2 rot(float a){ float s=sin(a), c=cos(a); return mat2(c,-s,s,c); }
+  vec3 hsl2rgb(vec3 hsl){ vec3 rgb = clamp(abs(mod(hsl.x*6.0+vec3(0.,4.,2.),6.)-3.)-1.,0.,1.); return hsl.z + hsl.y*(rgb-0.5)*(1.0-abs(2.0*hsl.z-1.0)); }
+
+  float specular(vec2 p){
+    vec2 c = vec2(u_tilt.x, 1.0 - u_tilt.y);
+    float reach = length(max(c, 1.0 - c) * u_resolution);
+    float t = length((p - c) * u_resolution) / reach;
+    float a = t < ${glsl(S1)}
+      ? mix(${glsl(A0)}, ${glsl(A1)}, t / ${glsl(S1)})
+      : mix(${glsl(A1)}, ${glsl(A2)}, clamp((t - ${glsl(S1)}) / ${glsl(S2 - S1)}, 0.0, 1.0));
+    return a * ${glsl(SPECULAR_OPACITY)};
+  }
+
+  void main(){
+    vec2 tilt = (u_tilt - 0.5);
+    vec2 uv = vUv + tilt * vec2(0.18, 0.12);
+    vec2 asp = vec2(u_resolution.x/u_resolution.y, 1.0);
+    vec2 q = uv * asp;
+
+    vec2 nw = q * 3.7; nw *= rot(2.39996323);
+    float nA = noise(nw + tilt*0.9);
+    float nB = noise(nw*1.9 + vec2(0.73,-1.21));
+    q += (vec2(nA,nB)-0.5) * 0.35;
+
+    float f=0.;
+    for (int i = 0; i < ${BLOB_COUNT}; i++) {
+      vec4 b = u_blobs[i];
+      vec2 d = q - (b.xy + tilt*b.w);
+      f += (b.z*b.z)/(dot(d,d)+1e-3);
+    }
+
+    float ang = atan(q.y-0.5,q.x-0.5);
+    f += 0.08 * sin(ang*u_ripples + (tilt.x-tilt.y)*10.0);
+
+    float hue = fract(f*u_hueScale + (tilt.x-tilt.y)*0.06);
+    float sat = u_saturation;
+    float lig = 0.55 + 0.20*clamp(f,0.0,1.4);
+    vec3 col = hsl2rgb(vec3(hue,sat,lig));
+
+    float edge = smoothstep(0.62,0.98,f);
+    col += vec3(1.0) * edge * 0.28;
+
+    // "color" blend towards the tint: its hue and saturation, the foil's luminance
+    const vec3 LUMA = vec3(0.299, 0.587, 0.114);
+    vec3 tinted = u_tint.rgb * (dot(col, LUMA) / max(dot(u_tint.rgb, LUMA), 1e-3));
+    col = mix(col, clamp(tinted, 0.0, 1.0), u_tint.a);
+
+    // "overlay" with white: doubles darks, saturates lights
+    vec3 lit = mix(2.0 * col, vec3(1.0), step(0.5, col));
+    col = mix(col, clamp(lit, 0.0, 1.0), specular(vUv));
+
+    // Mask is sampled untilted: the emblem stays put while the foil moves
+    float m = (u_hasMask > 0.5 ? texture2D(u_mask, vUv).a : 1.0) * u_opacity;
+    gl_FragColor = vec4(col * m, m);
+  }
+`;
+
+function compileShader(gl: GL, type: number, source: string) {
+  const sh = gl.createShader(type)!;
+  gl.shaderSource(sh, source);
+  gl.compileShader(sh);
+  if (!gl.getShaderParameter(sh, gl.COMPILE_STATUS)) {
+    const info = gl.getShaderInfoLog(sh) || "unknown";
+    gl.deleteShader(sh);
+    throw new ShaderError("compile", info);
+  }
+  return sh;
+}
+
+function createProgram(gl: GL, vs: string, fs: string) {
+  const prog = gl.createProgram()!;
+  const vsh = compileShader(gl, gl.VERTEX_SHADER, vs);
+  const fsh = compileShader(gl, gl.FRAGMENT_SHADER, fs);
+  gl.attachShader(prog, vsh);
+  gl.attachShader(prog, fsh);
+  gl.linkProgram(prog);
+  if (!gl.getProgramParameter(prog, gl.LINK_STATUS)) {
+    throw new ShaderError("link", gl.getProgramInfoLog(prog) || "unknown");
+  }
+  gl.deleteShader(vsh);
+  gl.deleteShader(fsh);
+  return prog;
+}
+
+type AnyCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+export class HologramRenderer<C extends AnyCanvas = HTMLCanvasElement> {
+  readonly contextType: "webgl2" | "webgl";
+  private resources: {
+    program: WebGLProgram;
+    aPos: number;
+    uTilt: WebGLUniformLocation | null;
+    uResolution: WebGLUniformLocation | null;
+    uMask: WebGLUniformLocation | null;
+    uHasMask: WebGLUniformLocation | null;
+    uBlobs: WebGLUniformLocation | null;
+    uHueScale: WebGLUniformLocation | null;
+    uSaturation: WebGLUniformLocation | null;
+    uRipples: WebGLUniformLocation | null;
+    uOpacity: WebGLUniformLocation | null;
+    uTint: WebGLUniformLocation | null;
+    buffer: WebGLBuffer | null;
+    mask: WebGLTexture | null;
+  } | null = null;
+  private tilt = { x: 0.5, y: 0.5 };
+  private size = { width: 414, height: 896 };
+  private disposed = false;
+  private emblemLoader = new EmblemLoader((emblem) => {
+    if (emblem && emblem !== "pending") this.setMask((w, h) => rasterizeEmblem(emblem, w, h));
+    else this.setMask(emblem as "pending" | null);
+  });
+  private params: HologramParams;
+  // "pending" draws nothing until the mask arrives; null shows the foil unmasked
+  private mask: MaskRasterizer | "pending" | null = null;
+  // Drawing-buffer size the mask texture was rasterised at
+  private maskSize: { width: number; height: number } | null = null;
+  private devicePixelRatio: number;
+  private scale = 1;
+
+  /** Returns null when neither WebGL2 nor WebGL1 is available. */
+  static create<C extends AnyCanvas>(canvas: C, options: HologramRendererOptions = {}): HologramRenderer<C> | null {
+    // OffscreenCanvas has the same getContext contract; the cast only picks an overload
+    const c = canvas as HTMLCanvasElement;
+    const gl2 = c.getContext("webgl2");
+    if (gl2) return new HologramRenderer(canvas, gl2, "webgl2", options);
+    const gl1 = (c.getContext("webgl") || c.getContext("experimental-webgl")) as WebGLRenderingContext | null;
+    if (gl1) return new HologramRenderer(canvas, gl1, "webgl", options);
+    return null;
+  }
+
+  private constructor(
+    readonly canvas: C,
+    private readonly gl: GL,
+    contextType: "webgl2" | "webgl",
+    private readonly options: HologramRendererOptions
+  ) {
+    this.contextType = contextType;
+    this.params = options.params ?? DEFAULT_HOLOGRAM;
+    this.devicePixelRatio = options.devicePixelRatio ?? globalThis.devicePixelRatio ?? 1;
+    canvas.addEventListener("webglcontextlost", this.onContextLost);
+    canvas.addEventListener("webglcontextrestored", this.onContextRestored);
+    this.buildResources();
+    this.setEmblem(options.emblem ?? null);
+  }
+
+  setParams(params: HologramParams) {
+    this.params = params;
+    this.render();
+  }
+
+  setEmblem(url: string | null) {
+    this.emblemLoader.set(url);
+  }
+
+  /** Mask without the emblem loader: how the worker hands over bitmaps rasterised on the main thread. */
+  setMask(mask: MaskRasterizer | "pending" | null) {
+    this.mask = mask;
+    this.maskSize = null;
+    if (mask === "pending" && this.resources && !this.gl.isContextLost()) this.clearMask(this.resources.mask);
+    this.render();
+  }
+
+  setResolutionScale(scale: number) {
+    if (scale === this.scale) return;
+    this.scale = scale;
+    this.render();
+  }
+
+  /** Tilt in 0..1 on both axes (0.5 = level). Redraws immediately. */
+  setTilt(x: number, y: number) {
+    this.tilt.x = x;
+    this.tilt.y = y;
+    this.render();
+  }
+
+  /** Layout size in CSS pixels; the drawing buffer is scaled by DPR. */
+  resize(width: number, height: number, devicePixelRatio?: number) {
+    this.size.width = width;
+    this.size.height = height;
+    if (devicePixelRatio) this.devicePixelRatio = devicePixelRatio;
+    this.render();
+  }
+
+  render() {
+    const res = this.resources;
+    if (!res || this.disposed || this.gl.isContextLost()) return;
+    const { gl } = this;
+    const startedAt = performance.now();
+    const { width: w, height: h } = this.size;
+    const { width: cw, height: ch } = drawingBufferSize(w, h, this.devicePixelRatio, this.options.maxDpr, this.scale);
+
+    if (this.canvas.width !== cw || this.canvas.height !== ch) {
+      this.canvas.width = cw;
+      this.canvas.height = ch;
+    }
+    gl.viewport(0, 0, cw, ch);
+
+    // Re-rasterise the emblem whenever the buffer size changes, for a crisp edge
+    if (typeof this.mask === "function" && (this.maskSize?.width !== cw || this.maskSize?.height !== ch)) {
+      gl.bindTexture(gl.TEXTURE_2D, res.mask);
+      gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, this.mask(cw, ch));
+      gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false);
+      this.maskSize = { width: cw, height: ch };
+    }
+
+    gl.useProgram(res.program);
+    gl.bindBuffer(gl.ARRAY_BUFFER, res.buffer);
+    gl.enableVertexAttribArray(res.aPos);
+    gl.vertexAttribPointer(res.aPos, 2, gl.FLOAT, false, 0, 0);
+
+    if (res.uTilt) gl.uniform2f(res.uTilt, this.tilt.x, this.tilt.y);
+    if (res.uResolution) gl.uniform2f(res.uResolution, w, h);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, res.mask);
+    if (res.uMask) gl.uniform1i(res.uMask, 0);
+    // Until the emblem arrives the blank texture keeps the surface empty
+    if (res.uHasMask) gl.uniform1f(res.uHasMask, this.mask ? 1 : 0);
+    const p = this.params;
+    if (res.uBlobs) gl.uniform4fv(res.uBlobs, packBlobs(p.blobs));
+    if (res.uHueScale) gl.uniform1f(res.uHueScale, p.hueScale);
+    if (res.uSaturation) gl.uniform1f(res.uSaturation, p.saturation);
+    if (res.uRipples) gl.uniform1f(res.uRipples, p.ripples);
+    if (res.uOpacity) gl.uniform1f(res.uOpacity, p.opacity);
+    if (res.uTint) gl.uniform4fv(res.uTint, packTint(p.tint));
+
+    gl.drawArrays(gl.TRIANGLES, 0, 3);
+    this.options.onFrame?.(performance.now() - startedAt);
+  }
+
+  dispose() {
+    if (this.disposed) return;
+    this.disposed = true;
+    this.emblemLoader.dispose();
+    this.canvas.removeEventListener("webglcontextlost", this.onContextLost);
+    this.canvas.removeEventListener("webglcontextrestored", this.onContextRestored);
+    this.releaseResources();
+  }
+
+  private buildResources() {
+    const { gl } = this;
+    const program = createProgram(gl, VERTEX_SHADER, FRAGMENT_SHADER);
+    const buffer = gl.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    // One oversized triangle covers the viewport
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 3, -1, -1, 3]), gl.STATIC_DRAW);
+
+    // NPOT-safe on WebGL1: no mipmaps, clamped edges; starts as one clear pixel
+    const mask = gl.createTexture();
+    gl.bindTexture(gl.TEXTURE_2D, mask);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    this.clearMask(mask);
+
+    this.resources = {
+      program,
+      aPos: gl.getAttribLocation(program, "a_position"),
+      uTilt: gl.getUniformLocation(program, "u_tilt"),
+      uResolution: gl.getUniformLocation(program, "u_resolution"),
+      uMask: gl.getUniformLocation(program, "u_mask"),
+      uHasMask: gl.getUniformLocation(program, "u_hasMask"),
+      uBlobs: gl.getUniformLocation(program, "u_blobs"),
+      uHueScale: gl.getUniformLocation(program, "u_hueScale"),
+      uSaturation: gl.getUniformLocation(program, "u_saturation"),
+      uRipples: gl.getUniformLocation(program, "u_ripples"),
+      uOpacity: gl.getUniformLocation(program, "u_opacity"),
+      uTint: gl.getUniformLocation(program, "u_tint"),
+      buffer,
+      mask,
+    };
+  }
+
+  private clearMask(texture: WebGLTexture | null) {
+    const { gl } = this;
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, 1, 1, 0, gl.RGBA, gl.UNSIGNED_BYTE, new Uint8Array(4));
+    this.maskSize = null;
+  }
+
+  private releaseResources() {
+    const res = this.resources;
+    this.resources = null;
+    if (!res || this.gl.isContextLost()) return;
+    try {
+      this.gl.deleteBuffer(res.buffer);
+    } catch {}
+    try {
+      this.gl.deleteTexture(res.mask);
+    } catch {}
+    try {
+      this.gl.deleteProgram(res.program);
+    } catch {}
+  }
+
+  private onContextLost = (ev: Event) => {
+    // preventDefault tells the browser we will handle restoration
+    ev.preventDefault();
+    this.resources = null;
+    this.options.onContextChange?.("lost");
+  };
+
+  private onContextRestored = () => {
+    if (this.disposed) return;
+    this.buildResources();
+    this.render();
+    this.options.onContextChange?.("restored");
+  };
+}
@@ -0,0 +1,103 @@
+import React from "react";
+import type { LicenceData } from "./licence";
+import { LicenceImportError, importLicenceFile } from "./licenceImport";
+
+export const IMPORT_ACCEPT = ".cbor,.mdoc,.json,application/cbor,application/json";
+
+export type ImportResult = { licence: LicenceData; fileName: string } | { error: string; fileName: string };
+
+/** Reads a file into a licence record; bad input comes back as an error message rather than a throw. */
+export async function readLicenceFile(file: File): Promise<ImportResult> {
+  try {
+    return { licence: await importLicenceFile(file), fileName: file.name };
+  } catch (err) {
+    const message = err instanceof LicenceImportError ? err.message : `Couldn't read the file (${err})`;
+    return { error: message, fileName: file.name };
+  }
+}
+
+/**
+ * Drag-and-drop of one file onto an element. `dragging` is true while a file
+ * is held over it; the drag counter copes with enter/leave firing per child.
+ */
+export function useFileDrop(onFile: (file: File) => void) {
+  const [dragging, setDragging] = React.useState(false);
+  const depth = React.useRef(0);
+  const hasFiles = (e: React.DragEvent) => Array.from(e.dataTransfer?.types ?? []).includes("Files");
+
+  return {
+    dragging,
+    dropProps: {
+      onDragEnter: (e: React.DragEvent) => {
+        if (!hasFiles(e)) return;
+        e.preventDefault();
+        depth.current++;
+        setDragging(true);
+      },
+      onDragOver: (e: React.DragEvent) => {
+        if (!hasFiles(e)) return;
+        // Without this the browser opens the file instead of dropping it here
+        e.preventDefault();
+        e.dataTransfer.dropEffect = "copy";
+      },
+      onDragLeave: (e: React.DragEvent) => {
+        if (!hasFiles(e)) return;
+        depth.current = Math.max(0, depth.current - 1);
+        if (!depth.current) setDragging(false);
+      },
+      onDrop: (e: React.DragEvent) => {
+        if (!hasFiles(e)) return;
+        e.preventDefault();
+        depth.current = 0;
+        setDragging(false);
+        const file = e.dataTransfer?.files?.[0];
+        if (file) onFile(file);
+      },
+    },
+  };
+}
+
+// Preview-frame controls for importing a licence record from an mdoc or JSON file
+export function ImportPanel({ result, onFile }: { result: ImportResult | null; onFile: (file: File) => void }) {
+  const input = React.useRef<HTMLInputElement>(null);
+  return (
+    <div className="space-y-2 text-sm text-slate-300">
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={() => input.current?.click()}
+          className="rounded-lg bg-slate-700 px-3 py-1.5 hover:bg-slate-600 disabled:opacity-40"
+        >
+          Import file…
+        </button>
+        <input
+          ref={input}
+          type="file"
+          aria-label="Licence file"
+          accept={IMPORT_ACCEPT}
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            // Clear so picking the same file again still fires a change
+            e.target.value = "";
+            if (file) onFile(file);
+          }}
+        />
+        <span className="text-slate-400">or drop one on the card</span>
+      </div>
+      {result && "error" in result && (
+        <p role="alert" className="rounded-lg bg-red-950/60 p-2 text-red-200">
+          {result.fileName}: {result.error}
+        </p>
+      )}
+      {result && "licence" in result && (
+        <p role="status" className="text-slate-400">
+          Showing {result.licence.givenNames} {result.licence.familyName} from {result.fileName}.
+        </p>
+      )}
+      <p className="text-slate-400">
+        ISO 18013-5 mdoc (CBOR DeviceResponse or IssuerSigned) or JSON. Issuer signatures aren’t checked.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import React from "react";
+import { downloadJson } from "./download";
+import { parseTiltTrace, type TiltInput, type TiltTrace } from "./tiltInput";
+
+// Preview-frame controls for the card's tilt input: calibration, record, replay
+export function MotionPanel({
+  input,
+  sensitivity,
+  onSensitivityChange,
+}: {
+  input: TiltInput | null;
+  sensitivity: number;
+  onSensitivityChange: (value: number) => void;
+}) {
+  const [recording, setRecording] = React.useState(false);
+  const [replaying, setReplaying] = React.useState(false);
+  const [lastTrace, setLastTrace] = React.useState<TiltTrace | null>(null);
+  const [message, setMessage] = React.useState<string | null>(null);
+
+  const toggleRecording = () => {
+    if (!input) return;
+    if (!recording) {
+      input.startRecording();
+      setRecording(true);
+      setMessage("Recording… move the card, then stop.");
+      return;
+    }
+    const trace = input.stopRecording();
+    setRecording(false);
+    setLastTrace(trace);
+    setMessage(`Recorded ${trace.samples.length} samples.`);
+    downloadJson(`tilt-trace-${new Date().toISOString().replace(/[:.]/g, "-")}.json`, JSON.stringify(trace, null, 2));
+  };
+
+  const replay = async (trace: TiltTrace) => {
+    if (!input) return;
+    setReplaying(true);
+    setMessage(`Replaying ${trace.samples.length} samples…`);
+    await input.replay(trace);
+    setReplaying(false);
+    setMessage("Replay finished.");
+  };
+
+  const onFile = async (ev: React.ChangeEvent<HTMLInputElement>) => {
+    const file = ev.target.files?.[0];
+    ev.target.value = "";
+    if (!file) return;
+    try {
+      const trace = parseTiltTrace(await file.text());
+      setLastTrace(trace);
+      await replay(trace);
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const button = "rounded-lg bg-slate-700 px-3 py-1.5 hover:bg-slate-600 disabled:opacity-40";
+
+  return (
+    <div className="space-y-3 text-sm text-slate-300">
+      <label className="flex items-center gap-3">
+        <span className="w-24">Sensitivity</span>
+        <input
+          type="range"
+          min={0.5}
+          max={3}
+          step={0.1}
+          value={sensitivity}
+          onChange={(e) => onSensitivityChange(Number(e.target.value))}
+          className="flex-1"
+        />
+        <span className="w-8 text-right tabular-nums">{sensitivity.toFixed(1)}</span>
+      </label>
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          className={button}
+          disabled={!input}
+          title="Treat how the phone is held right now as level"
+          onClick={() => setMessage(input?.calibrateNeutral() ? "Neutral angle set." : "No orientation data yet.")}
+        >
+          Set neutral
+        </button>
+        <button type="button" className={button} disabled={!input || replaying} onClick={toggleRecording}>
+          {recording ? "Stop & save trace" : "Record trace"}
+        </button>
+        <button
+          type="button"
+          className={button}
+          disabled={!input || recording || !lastTrace}
+          onClick={() => (replaying ? input?.stopReplay() : lastTrace && replay(lastTrace))}
+        >
+          {replaying ? "Stop replay" : "Replay last"}
+        </button>
+        <label className={`${button} cursor-pointer`}>
+          Replay file…
+          <input type="file" accept="application/json,.json" className="hidden" onChange={onFile} />
+        </label>
+      </div>
+      {message && <p className="text-slate-400">{message}</p>}
+    </div>
+  );
+}
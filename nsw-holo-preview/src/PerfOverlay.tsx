@@ -0,0 +1,42 @@
+import React from "react";
+import type { FramePerf, FrameStats } from "./framePerf";
+
+// Dev overlay over the card: hologram FPS, frame/draw times and the resolution
+// actually rendered. Polls the stats so the card doesn't re-render per frame.
+export function PerfOverlay({
+  perf,
+  maxDpr,
+  devicePixelRatio,
+}: {
+  perf: FramePerf;
+  maxDpr: number;
+  /** Simulated DPR; defaults to the window's. */
+  devicePixelRatio?: number;
+}) {
+  const [stats, setStats] = React.useState<FrameStats>(() => perf.stats());
+
+  React.useEffect(() => {
+    const timer = window.setInterval(() => setStats(perf.stats()), 500);
+    return () => window.clearInterval(timer);
+  }, [perf]);
+
+  const deviceDpr = devicePixelRatio ?? (window.devicePixelRatio || 1);
+  const capped = Math.min(maxDpr, deviceDpr);
+  return (
+    <div
+      aria-hidden="true"
+      data-testid="perf-overlay"
+      className="pointer-events-none absolute left-2 top-2 z-50 rounded bg-black/70 px-2 py-1 font-mono text-[10px] leading-4 text-lime-300"
+    >
+      <p>
+        {perf.renderer} · {stats.fps} fps
+      </p>
+      <p>
+        frame {stats.frameMs.toFixed(1)} ms · draw {stats.drawMs.toFixed(2)} ms
+      </p>
+      <p>
+        dpr {deviceDpr} → cap {maxDpr} × {stats.scale.toFixed(2)} = {(capped * stats.scale).toFixed(2)}
+      </p>
+    </div>
+  );
+}
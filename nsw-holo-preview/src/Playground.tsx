@@ -0,0 +1,185 @@
+import React from "react";
+import * as credentialThemes from "./credentialThemes";
+import * as deviceProfiles from "./deviceProfiles";
+import * as hologramPresets from "./hologramPresets";
+import * as licence from "./licence";
+import {
+  DEFAULT_SNIPPET,
+  evaluateSnippet,
+  loadCompiler,
+  transpileSnippet,
+  type PlaygroundProps,
+  type SnippetDiagnostic,
+} from "./playground";
+
+export interface CompiledSnippet {
+  status: "idle" | "loading" | "ready";
+  /** The last snippet that compiled and ran; kept on screen while the source has errors. */
+  component: React.ComponentType<PlaygroundProps> | null;
+  /** Bumped per successful compile so the error boundary starts over. */
+  version: number;
+  diagnostics: SnippetDiagnostic[];
+  /** The module threw while loading, or had no default export. */
+  error: string | null;
+}
+
+const COMPILE_DELAY_MS = 300;
+
+/** What a snippet may import, keyed by specifier. The preview adds "./App" (this module can't import it back). */
+export const SNIPPET_MODULES: Record<string, unknown> = {
+  react: React,
+  "./credentialThemes": credentialThemes,
+  "./deviceProfiles": deviceProfiles,
+  "./hologramPresets": hologramPresets,
+  "./licence": licence,
+};
+
+/**
+ * Compiles `source` shortly after typing stops. Nothing is fetched until the
+ * playground is first enabled; syntax errors leave the last good component up.
+ */
+export function useCompiledSnippet(source: string, modules: Record<string, unknown>, enabled: boolean): CompiledSnippet {
+  const [compiled, setCompiled] = React.useState<CompiledSnippet>({
+    status: "idle",
+    component: null,
+    version: 0,
+    diagnostics: [],
+    error: null,
+  });
+
+  React.useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    setCompiled((c) => (c.status === "idle" ? { ...c, status: "loading" } : c));
+    const timer = window.setTimeout(async () => {
+      let ts;
+      try {
+        ts = await loadCompiler();
+      } catch (err) {
+        if (!cancelled) setCompiled((c) => ({ ...c, status: "ready", error: `TypeScript failed to load: ${err}` }));
+        return;
+      }
+      if (cancelled) return;
+      const { code, diagnostics } = transpileSnippet(ts, source);
+      if (diagnostics.length) {
+        setCompiled((c) => ({ ...c, status: "ready", diagnostics, error: null }));
+        return;
+      }
+      try {
+        const component = evaluateSnippet<PlaygroundProps>(code, modules) as React.ComponentType<PlaygroundProps>;
+        setCompiled((c) => ({ status: "ready", component, version: c.version + 1, diagnostics: [], error: null }));
+      } catch (err) {
+        const message = err instanceof Error ? `${err.name}: ${err.message}` : String(err);
+        setCompiled((c) => ({ ...c, status: "ready", component: null, diagnostics: [], error: message }));
+      }
+    }, COMPILE_DELAY_MS);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [source, enabled]);
+
+  return compiled;
+}
+
+function ErrorBox({ title, message }: { title: string; message: string }) {
+  return (
+    <div role="alert" className="m-4 rounded-lg bg-red-50 p-4 text-sm text-red-800">
+      <p className="font-semibold">{title}</p>
+      <pre className="mt-2 whitespace-pre-wrap font-mono text-xs">{message}</pre>
+    </div>
+  );
+}
+
+// Contains render errors from the snippet; a new compile (`version`) clears them
+class SnippetBoundary extends React.Component<{ version: number; children: React.ReactNode }, { error: Error | null }> {
+  state = { error: null as Error | null };
+
+  static getDerivedStateFromError(error: Error) {
+    return { error };
+  }
+
+  componentDidUpdate(prev: { version: number }) {
+    if (prev.version !== this.props.version && this.state.error) this.setState({ error: null });
+  }
+
+  render() {
+    const { error } = this.state;
+    if (error) return <ErrorBox title="Runtime error" message={`${error.name}: ${error.message}`} />;
+    return this.props.children;
+  }
+}
+
+// Renders the compiled snippet in place of the card
+export function SnippetPreview({ compiled, props }: { compiled: CompiledSnippet; props: PlaygroundProps }) {
+  if (compiled.error) return <ErrorBox title="Snippet failed to load" message={compiled.error} />;
+  const Component = compiled.component;
+  if (!Component) {
+    return (
+      <p className="p-6 text-center text-sm text-gray-500">
+        {compiled.diagnostics.length ? "Fix the errors in the editor to render." : "Loading TypeScript…"}
+      </p>
+    );
+  }
+  return (
+    <SnippetBoundary version={compiled.version}>
+      <Component {...props} />
+    </SnippetBoundary>
+  );
+}
+
+// Preview-frame editor for the playground snippet, with compile diagnostics inline
+export function PlaygroundEditor({
+  source,
+  onChange,
+  compiled,
+  modules,
+}: {
+  source: string;
+  onChange: (source: string) => void;
+  compiled: CompiledSnippet;
+  modules: string[];
+}) {
+  return (
+    <div className="space-y-2 text-sm text-slate-300">
+      <textarea
+        aria-label="Component source"
+        value={source}
+        onChange={(e) => onChange(e.target.value)}
+        spellCheck={false}
+        rows={16}
+        className="w-full rounded-lg bg-slate-950 p-3 font-mono text-xs leading-5 text-slate-100"
+      />
+      {compiled.diagnostics.length > 0 && (
+        <ul aria-label="Compile errors" className="space-y-1 rounded-lg bg-red-950/60 p-2 font-mono text-xs text-red-200">
+          {compiled.diagnostics.map((d, i) => (
+            <li key={i}>
+              Line {d.line}:{d.column} {d.message}
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex items-center gap-3">
+        <button
+          type="button"
+          disabled={source === DEFAULT_SNIPPET}
+          onClick={() => onChange(DEFAULT_SNIPPET)}
+          className="rounded-lg bg-slate-700 px-3 py-1.5 hover:bg-slate-600 disabled:opacity-40"
+        >
+          Reset
+        </button>
+        <span className="text-slate-400">{compiled.status === "loading" ? "Loading TypeScript…" : "Saved in this browser"}</span>
+      </div>
+      <p className="text-slate-400">
+        Export a component as default; it gets <code>licence</code> and <code>viewport</code> as props. Imports:{" "}
+        {modules.map((m, i) => (
+          <React.Fragment key={m}>
+            {i > 0 && ", "}
+            <code>{m}</code>
+          </React.Fragment>
+        ))}
+        .
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import React from "react";
+import { drawQrToCanvas, encodeQr, qrSvgPath, type EccLevel } from "./qr";
+
+export interface QrCodeProps {
+  value: string;
+  ecc?: EccLevel;
+  /** "svg" scales crisply; "canvas" is cheaper for very large versions. */
+  render?: "svg" | "canvas";
+  /** Light border in modules; readers expect at least 4. */
+  quietZone?: number;
+  className?: string;
+  title?: string;
+}
+
+// Renders a QR code generated on-device from `value`
+export function QrCode({ value, ecc = "M", render = "svg", quietZone = 4, className, title = "QR Code" }: QrCodeProps) {
+  const qr = React.useMemo(() => encodeQr(value, { ecc }), [value, ecc]);
+  const canvasRef = React.useRef<HTMLCanvasElement | null>(null);
+  const total = qr.size + quietZone * 2;
+
+  React.useEffect(() => {
+    if (render !== "canvas" || !canvasRef.current) return;
+    const canvas = canvasRef.current;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    const px = Math.ceil((canvas.clientWidth || total * 4) * Math.min(2, window.devicePixelRatio || 1));
+    canvas.width = px;
+    canvas.height = px;
+    drawQrToCanvas(ctx, qr, px, quietZone);
+  }, [qr, render, quietZone, total]);
+
+  if (render === "canvas") {
+    return <canvas ref={canvasRef} role="img" aria-label={title} className={className} />;
+  }
+  return (
+    <svg
+      viewBox={`0 0 ${total} ${total}`}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label={title}
+      className={className}
+    >
+      <rect width={total} height={total} fill="#ffffff" />
+      <path d={qrSvgPath(qr, quietZone)} fill="#000000" />
+    </svg>
+  );
+}
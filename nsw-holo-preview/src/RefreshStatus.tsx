@@ -0,0 +1,145 @@
+import React from "react";
+import { formatAgo, formatClock, formatRefreshed, nextSydneyMidnight, sydneyDate } from "./licence";
+
+/** Pull distance (px) that triggers a refresh. */
+export const PULL_THRESHOLD = 80;
+
+export type RefreshState = "idle" | "loading" | "success" | "offline";
+
+/** The current time, re-rendering every `intervalMs`. */
+export function useNow(intervalMs = 1000) {
+  const [now, setNow] = React.useState(() => new Date());
+  React.useEffect(() => {
+    const timer = window.setInterval(() => setNow(new Date()), intervalMs);
+    return () => window.clearInterval(timer);
+  }, [intervalMs]);
+  return now;
+}
+
+/**
+ * Today's Sydney calendar date (UTC midnight, as `sydneyDate` returns), replaced
+ * at each Sydney midnight. Pass it as `now` to anything worked out from "today"
+ * (status, ages) so that rolls over too.
+ */
+export function useSydneyDay() {
+  const [day, setDay] = React.useState(() => sydneyDate(new Date()));
+  React.useEffect(() => {
+    let timer: number;
+    const schedule = () => {
+      // A little past midnight, in case the timer fires early; an early wake just re-arms
+      const wait = nextSydneyMidnight(new Date()).getTime() - Date.now() + 50;
+      timer = window.setTimeout(() => {
+        const today = sydneyDate(new Date());
+        setDay((d) => (d.getTime() === today.getTime() ? d : today));
+        schedule();
+      }, wait);
+    };
+    schedule();
+    return () => window.clearTimeout(timer);
+  }, []);
+  return day;
+}
+
+/**
+ * Pull-down gesture on `ref`: returns progress 0..1 while a finger or pen
+ * drags mostly downwards, and calls `onPull` when released past the threshold.
+ * It only arms while `scrollRef` is scrolled to the top, so otherwise the drag
+ * scrolls the screen; mouse drags never pull (on desktop they'd fight tilt).
+ */
+export function usePullToRefresh(
+  ref: React.RefObject<HTMLElement>,
+  scrollRef: React.RefObject<HTMLElement>,
+  onPull: () => void,
+  disabled = false
+) {
+  const [progress, setProgress] = React.useState(0);
+  const onPullRef = React.useRef(onPull);
+  onPullRef.current = onPull;
+
+  React.useEffect(() => {
+    const el = ref.current;
+    const scroller = scrollRef.current;
+    if (!el || !scroller || disabled) return;
+    let start: { id: number; x: number; y: number } | null = null;
+    let pulled = 0;
+
+    // At the top, keep downward drags from the browser (the card's pan-y would scroll or
+    // overscroll with them) and let upward ones scroll. Browsers without pan-down keep pan-y.
+    const syncTouchAction = () => {
+      el.style.touchAction = scroller.scrollTop <= 0 ? "pan-down" : "";
+    };
+    const onDown = (ev: PointerEvent) => {
+      if (!ev.isPrimary || ev.pointerType === "mouse" || scroller.scrollTop > 0) return;
+      start = { id: ev.pointerId, x: ev.clientX, y: ev.clientY };
+      pulled = 0;
+    };
+    const onMove = (ev: PointerEvent) => {
+      if (!start || ev.pointerId !== start.id) return;
+      const dx = ev.clientX - start.x,
+        dy = ev.clientY - start.y;
+      // Sideways drags are tilt, not a pull
+      pulled = dy > 0 && dy > Math.abs(dx) * 2 ? Math.min(1, dy / PULL_THRESHOLD) : 0;
+      setProgress(pulled);
+    };
+    const onEnd = (ev: PointerEvent) => {
+      if (!start || ev.pointerId !== start.id) return;
+      if (ev.type === "pointerup" && pulled >= 1) onPullRef.current();
+      start = null;
+      pulled = 0;
+      setProgress(0);
+    };
+
+    syncTouchAction();
+    scroller.addEventListener("scroll", syncTouchAction, { passive: true });
+    el.addEventListener("pointerdown", onDown);
+    el.addEventListener("pointermove", onMove);
+    el.addEventListener("pointerup", onEnd);
+    el.addEventListener("pointercancel", onEnd);
+    return () => {
+      scroller.removeEventListener("scroll", syncTouchAction);
+      el.removeEventListener("pointerdown", onDown);
+      el.removeEventListener("pointermove", onMove);
+      el.removeEventListener("pointerup", onEnd);
+      el.removeEventListener("pointercancel", onEnd);
+      el.style.touchAction = "";
+      setProgress(0);
+    };
+  }, [ref, scrollRef, disabled]);
+
+  return progress;
+}
+
+// Top-right block of the card: a live clock over the refresh state. It owns
+// the ticking so only this block re-renders every second.
+export function RefreshStatus({ refreshedAt, state }: { refreshedAt?: string; state: RefreshState }) {
+  const now = useNow();
+  const refreshed = refreshedAt ? new Date(refreshedAt) : null;
+  const stamp = refreshed ? formatRefreshed(refreshed) : null;
+  return (
+    <div className="text-right text-xs text-gray-500">
+      {/* Not a live region: announcing the clock every second would drown everything else */}
+      <time className="block font-mono font-semibold text-gray-800 tabular-nums" dateTime={now.toISOString()}>
+        {formatClock(now)}
+      </time>
+      <div aria-live="polite">
+        {state === "loading" ? (
+          <p>Refreshing…</p>
+        ) : state === "offline" ? (
+          <p className="text-amber-700">
+            Offline{refreshed ? `, last refreshed ${formatAgo(now.getTime() - refreshed.getTime())}` : ""}
+          </p>
+        ) : state === "success" ? (
+          <p className="text-green-700">Refreshed just now</p>
+        ) : (
+          stamp && (
+            <>
+              <p>Refreshed</p>
+              <p>{stamp.day}</p>
+              <p>{stamp.time}</p>
+            </>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
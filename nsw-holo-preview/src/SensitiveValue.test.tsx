@@ -0,0 +1,87 @@
+import React from "react";
+import { act, fireEvent, render, screen } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { SensitiveValue, useReveal } from "./SensitiveValue";
+
+function Harness({ timeoutMs = 5000 }: { timeoutMs?: number }) {
+  const reveal = useReveal(timeoutMs);
+  return (
+    <SensitiveValue
+      field="licenceNumber"
+      label="Licence number"
+      sensitive
+      revealed={reveal.revealed === "licenceNumber"}
+      onReveal={reveal.reveal}
+    >
+      1234 5678
+    </SensitiveValue>
+  );
+}
+
+const value = () => screen.getByText("1234 5678").closest("button") as HTMLButtonElement;
+const isRevealed = () => !!screen.queryByText("Licence number revealed");
+const hold = (ms: number) => {
+  fireEvent.pointerDown(value());
+  act(() => vi.advanceTimersByTime(ms));
+  fireEvent.pointerUp(value());
+  fireEvent.click(value());
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  delete (document as any).visibilityState;
+});
+
+describe("SensitiveValue", () => {
+  it("reveals on press and hold, without asking", () => {
+    render(<Harness />);
+    expect(value().getAttribute("aria-label")).toBe("Licence number hidden. Press and hold, or activate to reveal.");
+    expect(value().style.filter).toBe("blur(3px)");
+
+    hold(500);
+    expect(isRevealed()).toBe(true);
+    expect(value().style.filter).toBe("none");
+    expect(screen.queryByRole("alertdialog")).toBeNull();
+  });
+
+  it("asks before revealing on a tap", () => {
+    render(<Harness />);
+    hold(100);
+    expect(isRevealed()).toBe(false);
+    fireEvent.click(screen.getByRole("button", { name: "Cancel" }));
+    expect(screen.queryByRole("alertdialog")).toBeNull();
+    expect(isRevealed()).toBe(false);
+
+    fireEvent.click(value());
+    expect(screen.getByRole("alertdialog", { name: "Reveal licence number?" })).toBeTruthy();
+    fireEvent.click(screen.getByRole("button", { name: "Show" }));
+    expect(isRevealed()).toBe(true);
+    expect(screen.queryByRole("alertdialog")).toBeNull();
+  });
+
+  it("blurs again after the timeout", () => {
+    render(<Harness timeoutMs={3000} />);
+    hold(500);
+    act(() => vi.advanceTimersByTime(2999));
+    expect(isRevealed()).toBe(true);
+    act(() => vi.advanceTimersByTime(1));
+    expect(isRevealed()).toBe(false);
+    expect(value().style.filter).toBe("blur(3px)");
+  });
+
+  it("blurs again as soon as the page is hidden", () => {
+    render(<Harness />);
+    hold(500);
+    expect(isRevealed()).toBe(true);
+
+    Object.defineProperty(document, "visibilityState", { configurable: true, value: "hidden" });
+    act(() => {
+      document.dispatchEvent(new Event("visibilitychange"));
+    });
+    expect(isRevealed()).toBe(false);
+  });
+});
@@ -0,0 +1,112 @@
+import React from "react";
+import type { SensitiveField } from "./licence";
+
+const HOLD_MS = 500;
+
+/**
+ * Which sensitive field (at most one) is currently revealed. Re-blurs after
+ * `timeoutMs` and immediately whenever the page is hidden.
+ */
+export function useReveal(timeoutMs: number) {
+  const [revealed, setRevealed] = React.useState<SensitiveField | null>(null);
+
+  React.useEffect(() => {
+    if (!revealed) return;
+    const timer = window.setTimeout(() => setRevealed(null), timeoutMs);
+    const onVisibility = () => {
+      if (document.visibilityState === "hidden") setRevealed(null);
+    };
+    document.addEventListener("visibilitychange", onVisibility);
+    return () => {
+      window.clearTimeout(timer);
+      document.removeEventListener("visibilitychange", onVisibility);
+    };
+  }, [revealed, timeoutMs]);
+
+  return { revealed, reveal: setRevealed, hide: () => setRevealed(null) };
+}
+
+// Blurred value: press-and-hold reveals, a tap asks for confirmation first
+export function SensitiveValue({
+  field,
+  label,
+  sensitive,
+  revealed,
+  onReveal,
+  className,
+  children,
+}: {
+  field: SensitiveField;
+  /** Spoken name, e.g. "Licence number". */
+  label: string;
+  sensitive: boolean;
+  revealed: boolean;
+  onReveal: (field: SensitiveField) => void;
+  className?: string;
+  children: React.ReactNode;
+}) {
+  const [confirming, setConfirming] = React.useState(false);
+  const holdTimer = React.useRef<number | null>(null);
+  const held = React.useRef(false);
+
+  const cancelHold = () => {
+    if (holdTimer.current !== null) window.clearTimeout(holdTimer.current);
+    holdTimer.current = null;
+  };
+  React.useEffect(() => cancelHold, []);
+  React.useEffect(() => {
+    if (revealed) setConfirming(false);
+  }, [revealed]);
+
+  if (!sensitive) return <p className={className}>{children}</p>;
+
+  const onPointerDown = () => {
+    held.current = false;
+    cancelHold();
+    holdTimer.current = window.setTimeout(() => {
+      held.current = true;
+      onReveal(field);
+    }, HOLD_MS);
+  };
+  const onClick = () => {
+    // The click that ends a successful hold must not also open the confirmation
+    if (held.current) {
+      held.current = false;
+      return;
+    }
+    if (!revealed) setConfirming(true);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        className={`block text-left select-none ${className ?? ""}`}
+        style={{ filter: revealed ? "none" : "blur(3px)", transition: "filter 150ms" }}
+        aria-label={revealed ? undefined : `${label} hidden. Press and hold, or activate to reveal.`}
+        onPointerDown={onPointerDown}
+        onPointerUp={cancelHold}
+        onPointerLeave={cancelHold}
+        onPointerCancel={cancelHold}
+        onContextMenu={(ev) => ev.preventDefault()}
+        onClick={onClick}
+      >
+        <span aria-hidden={!revealed}>{children}</span>
+      </button>
+      {confirming && (
+        <div role="alertdialog" aria-label={`Reveal ${label.toLowerCase()}?`} className="absolute z-40 mt-1 flex items-center gap-2 rounded-lg bg-white px-3 py-2 text-xs shadow-lg ring-1 ring-black/10">
+          <span className="text-gray-700">Show {label.toLowerCase()}?</span>
+          <button type="button" autoFocus className="font-semibold text-blue-700" onClick={() => onReveal(field)}>
+            Show
+          </button>
+          <button type="button" className="text-gray-500" onClick={() => setConfirming(false)}>
+            Cancel
+          </button>
+        </div>
+      )}
+      <span className="sr-only" aria-live="polite">
+        {revealed ? `${label} revealed` : `${label} hidden`}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import React from "react";
+import { verifyCredential, type TrustedIssuer, type VerificationResult } from "./credential";
+import type { LicenceStatus } from "./licence";
+import { decodeQrImage } from "./qr";
+
+const STATUS_STYLES: Record<VerificationResult["status"], { label: string; className: string }> = {
+  valid: { label: "Valid", className: "bg-green-600" },
+  expired: { label: "Expired", className: "bg-amber-600" },
+  tampered: { label: "Tampered", className: "bg-red-600" },
+  "unknown-issuer": { label: "Unknown issuer", className: "bg-purple-600" },
+  malformed: { label: "Not a credential", className: "bg-slate-600" },
+};
+
+// Licence status carried in the claims (`st`), separate from the signature check
+const LICENCE_STATUS_STYLES: Record<LicenceStatus, { label: string; className: string }> = {
+  current: { label: "Licence current", className: "bg-green-700" },
+  expiring: { label: "Licence expiring soon", className: "bg-amber-500" },
+  expired: { label: "Licence expired", className: "bg-red-700" },
+  suspended: { label: "Licence suspended", className: "bg-orange-600" },
+  cancelled: { label: "Licence cancelled", className: "bg-gray-800" },
+};
+
+async function readQrFile(file: File) {
+  const url = URL.createObjectURL(file);
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    const canvas = document.createElement("canvas");
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    const ctx = canvas.getContext("2d")!;
+    ctx.drawImage(img, 0, 0);
+    return decodeQrImage(ctx.getImageData(0, 0, canvas.width, canvas.height)).text;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+// Local verifier: paste a token or load a QR image, check it against trusted issuers
+export function Verifier({ trustedIssuers, currentToken }: { trustedIssuers: TrustedIssuer[]; currentToken?: string | null }) {
+  const [token, setToken] = React.useState("");
+  const [result, setResult] = React.useState<VerificationResult | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const latest = React.useRef(0);
+
+  const verify = async (value: string) => {
+    const run = ++latest.current;
+    setToken(value);
+    setError(null);
+    try {
+      const next = value.trim() ? await verifyCredential(value, trustedIssuers) : null;
+      // Typing fires overlapping checks; only the newest one may update the screen
+      if (run === latest.current) setResult(next);
+    } catch (err) {
+      if (run !== latest.current) return;
+      setResult(null);
+      setError(errorMessage(err));
+    }
+  };
+
+  const onFile = async (ev: React.ChangeEvent<HTMLInputElement>) => {
+    const file = ev.target.files?.[0];
+    ev.target.value = "";
+    if (!file) return;
+    try {
+      await verify(await readQrFile(file));
+    } catch (err) {
+      setResult(null);
+      setError(errorMessage(err));
+    }
+  };
+
+  const status = result ? STATUS_STYLES[result.status] : null;
+  const st = result?.payload?.st;
+  const licenceStatus = typeof st === "string" && st in LICENCE_STATUS_STYLES ? LICENCE_STATUS_STYLES[st as LicenceStatus] : null;
+
+  return (
+    <div className="w-full space-y-3 text-sm">
+      <textarea
+        value={token}
+        onChange={(e) => verify(e.target.value)}
+        placeholder="Paste a credential payload…"
+        rows={5}
+        className="w-full rounded-lg bg-slate-800 text-slate-100 font-mono text-xs p-2 break-all"
+      />
+      <div className="flex flex-wrap gap-2">
+        <label className="cursor-pointer rounded-lg bg-slate-700 px-3 py-1.5 hover:bg-slate-600">
+          Load QR image
+          <input type="file" accept="image/*" className="hidden" onChange={onFile} />
+        </label>
+        {currentToken && (
+          <button
+            type="button"
+            onClick={() => verify(currentToken)}
+            className="rounded-lg bg-slate-700 px-3 py-1.5 hover:bg-slate-600"
+          >
+            Use current card
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-red-400">{error}</p>}
+      {result && status && (
+        <div className="rounded-lg bg-white/5 p-3 space-y-2">
+          <span className={`inline-block rounded-full px-3 py-1 font-semibold text-white ${status.className}`}>
+            {status.label}
+          </span>
+          {licenceStatus && (
+            <span className={`ml-2 inline-block rounded-full px-3 py-1 font-semibold text-white ${licenceStatus.className}`}>
+              {licenceStatus.label}
+            </span>
+          )}
+          {result.issuer && <p className="text-slate-300">Issuer: {result.issuer.name}</p>}
+          {result.detail && <p className="text-slate-400">{result.detail}</p>}
+          {result.payload && (
+            <>
+              <p className="text-slate-400">
+                Issued {new Date(result.payload.iat * 1000).toLocaleString()} · expires{" "}
+                {new Date(result.payload.exp * 1000).toLocaleString()}
+              </p>
+              <pre className="text-xs text-slate-300 whitespace-pre-wrap break-all">
+                {JSON.stringify(result.payload, null, 2)}
+              </pre>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import React from "react";
+import { credentialTheme } from "./credentialThemes";
+import { DEFAULT_VIEWPORT, type DeviceViewport } from "./deviceProfiles";
+import { formatLicenceDate, licenceStatus, parseLicenceDate, type LicenceStatus } from "./licence";
+import { useSydneyDay } from "./RefreshStatus";
+import { WALLET_ROUTE, parseRoute, routeHash, type Route, type WalletCredential } from "./wallet";
+
+/**
+ * The current hash route. `navigate` pushes a history entry marked as in-app,
+ * so `back` can pop it; a deep-linked card has nothing to pop and replaces
+ * itself with the wallet instead of leaving the site.
+ */
+export function useHashRoute() {
+  const [route, setRoute] = React.useState<Route>(() => parseRoute(window.location.hash));
+
+  React.useEffect(() => {
+    const sync = () => setRoute(parseRoute(window.location.hash));
+    // popstate covers back/forward; hashchange covers edits in the address bar
+    window.addEventListener("popstate", sync);
+    window.addEventListener("hashchange", sync);
+    return () => {
+      window.removeEventListener("popstate", sync);
+      window.removeEventListener("hashchange", sync);
+    };
+  }, []);
+
+  const navigate = React.useCallback((to: Route) => {
+    window.history.pushState({ inApp: true }, "", routeHash(to));
+    setRoute(to);
+  }, []);
+
+  const back = React.useCallback(() => {
+    if ((window.history.state as { inApp?: boolean } | null)?.inApp) {
+      window.history.back();
+    } else {
+      window.history.replaceState(null, "", routeHash(WALLET_ROUTE));
+      setRoute(WALLET_ROUTE);
+    }
+  }, []);
+
+  return { route, navigate, back };
+}
+
+const STATUS_LABELS: Record<LicenceStatus, { text: string; className: string }> = {
+  current: { text: "Current", className: "text-green-700" },
+  expiring: { text: "Expiring soon", className: "text-amber-700" },
+  expired: { text: "Expired", className: "text-red-700" },
+  suspended: { text: "Suspended", className: "text-orange-700" },
+  cancelled: { text: "Cancelled", className: "text-gray-700" },
+};
+
+// Wallet list: one tile per credential, each linking to its card route
+export function Wallet({
+  credentials,
+  onOpen,
+  viewport = DEFAULT_VIEWPORT,
+}: {
+  credentials: WalletCredential[];
+  onOpen: (route: Route) => void;
+  viewport?: DeviceViewport;
+}) {
+  // Status badges roll over at Sydney midnight
+  const today = useSydneyDay();
+  return (
+    <div
+      className="mx-auto overflow-hidden bg-gray-100 font-sans flex flex-col"
+      style={{ width: viewport.width, height: viewport.height, borderRadius: viewport.cornerRadius }}
+    >
+      <header className="px-4 py-3">
+        <h1 className="text-md font-semibold text-gray-800">Wallet</h1>
+      </header>
+      <ul className="flex-1 space-y-3 overflow-y-auto px-4 pb-6">
+        {credentials.map(({ id, label, licence }) => {
+          const theme = credentialTheme(licence);
+          const status = STATUS_LABELS[licenceStatus(licence, today).status];
+          const expiry = parseLicenceDate(licence.expiry);
+          const route: Route = { screen: "card", id };
+          return (
+            <li key={id}>
+              <a
+                href={routeHash(route)}
+                onClick={(ev) => {
+                  // Keep modified clicks (new tab, copy link) as plain links
+                  if (ev.metaKey || ev.ctrlKey || ev.shiftKey || ev.button !== 0) return;
+                  ev.preventDefault();
+                  onOpen(route);
+                }}
+                className="block overflow-hidden rounded-xl bg-white shadow-md hover:shadow-lg"
+              >
+                <div className={`h-2 ${theme.stripClass}`}></div>
+                <div className="flex items-center justify-between px-4 py-3">
+                  <div>
+                    <p className={`font-semibold ${theme.accentClass}`}>{label}</p>
+                    <p className="text-sm text-gray-600">
+                      {licence.givenNames} {licence.familyName}
+                    </p>
+                  </div>
+                  <div className="text-right text-xs">
+                    <p className={`font-semibold ${status.className}`}>{status.text}</p>
+                    <p className="text-gray-500">{expiry ? formatLicenceDate(expiry) : licence.expiry}</p>
+                  </div>
+                </div>
+              </a>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createHologramHost, type FromWorker, type ToWorker } from "./hologramHost";
+import { WorkerHologramSurface } from "./WorkerHologramSurface";
+import { installWebGLStub } from "./test/webglStub";
+
+let stub: ReturnType<typeof installWebGLStub> | undefined;
+
+// jsdom has no Worker; its presence is all canTransfer checks
+beforeEach(() => {
+  vi.stubGlobal("Worker", class {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  stub?.restore();
+  stub = undefined;
+});
+
+/** Worker stand-in running the real host in-process; a plain canvas plays the OffscreenCanvas. */
+function fakeWorker() {
+  const target = new EventTarget();
+  const host = createHologramHost((message: FromWorker) =>
+    target.dispatchEvent(Object.assign(new Event("message"), { data: message }))
+  );
+  return Object.assign(target, {
+    postMessage: vi.fn((message: ToWorker) => host.handle(message)),
+    terminate: vi.fn(),
+  }) as unknown as Worker & { postMessage: ReturnType<typeof vi.fn> };
+}
+
+function transferableCanvas() {
+  const canvas = document.createElement("canvas");
+  const offscreen = document.createElement("canvas");
+  canvas.transferControlToOffscreen = () => offscreen as unknown as OffscreenCanvas;
+  return { canvas, offscreen };
+}
+
+describe("WorkerHologramSurface", () => {
+  it("draws in the worker from posted tilt, size and scale", () => {
+    stub = installWebGLStub();
+    const { canvas, offscreen } = transferableCanvas();
+    const onFrame = vi.fn();
+    const worker = fakeWorker();
+    const surface = WorkerHologramSurface.create(canvas, { emblem: null, onFrame, createWorker: () => worker })!;
+    const [gl] = stub.contexts;
+    expect(gl.canvas).toBe(offscreen);
+
+    surface.setTilt(0.25, 0.75);
+    expect(gl.uniforms.u_tilt).toEqual([0.25, 0.75]);
+    surface.resize(200, 100);
+    surface.setResolutionScale(0.5);
+    expect([offscreen.width, offscreen.height]).toEqual([100, 50]);
+    expect(onFrame).toHaveBeenCalled();
+
+    // The canvas's control is gone; it can't back another worker
+    expect(WorkerHologramSurface.canTransfer(canvas)).toBe(false);
+    surface.dispose();
+    expect(worker.terminate).toHaveBeenCalled();
+  });
+
+  it("reports when the worker has no WebGL", () => {
+    stub = installWebGLStub({ support: [] });
+    const onFailure = vi.fn();
+    WorkerHologramSurface.create(transferableCanvas().canvas, { onFailure, createWorker: fakeWorker });
+    expect(onFailure).toHaveBeenCalledWith("no-webgl", expect.any(String));
+  });
+});
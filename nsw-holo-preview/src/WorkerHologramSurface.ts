@@ -0,0 +1,188 @@
+// ====== Worker-backed hologram surface ======
+// Hands the canvas to a Web Worker with transferControlToOffscreen, so drawing
+// no longer competes with React renders on the main thread. Each setter becomes
+// a message. Emblems are SVG, which workers can't decode, so the main thread
+// rasterises the mask at the drawing-buffer size and transfers the bitmap.
+import { EmblemLoader, rasterizeEmblem } from "./emblem";
+import type { FromWorker, ToWorker } from "./hologramHost";
+import { DEFAULT_MAX_DPR, drawingBufferSize, type HologramSurface } from "./HologramRenderer";
+import { DEFAULT_HOLOGRAM, type HologramParams } from "./hologramPresets";
+
+export interface WorkerSurfaceOptions {
+  maxDpr?: number;
+  /** Simulated DPR; defaults to the window's. */
+  devicePixelRatio?: number;
+  emblem?: string | null;
+  params?: HologramParams;
+  onFrame?: (drawMs: number) => void;
+  onContextChange?: (state: "lost" | "restored") => void;
+  /** The worker couldn't draw (no WebGL on OffscreenCanvas, shader error); the canvas is spent. */
+  onFailure?: (reason: "no-webgl" | "shader", message: string) => void;
+  /** Test seam; defaults to the bundled hologram worker. */
+  createWorker?: () => Worker;
+}
+
+// A canvas can hand its control over only once
+const transferred = new WeakSet<HTMLCanvasElement>();
+
+function spawnHologramWorker() {
+  return new Worker(new URL("./hologram.worker.ts", import.meta.url), { type: "module" });
+}
+
+export class WorkerHologramSurface implements HologramSurface {
+  private size = { width: 414, height: 896 };
+  private scale = 1;
+  private devicePixelRatio: number;
+  private emblemImage: HTMLImageElement | null = null;
+  // Guards against an older rasterisation landing after a newer one
+  private maskVersion = 0;
+  private emblemLoader = new EmblemLoader((emblem) => {
+    if (emblem && emblem !== "pending") {
+      this.emblemImage = emblem;
+      this.sendMask();
+      return;
+    }
+    this.emblemImage = null;
+    this.maskVersion++;
+    this.post({ type: "mask", mask: emblem as "pending" | null });
+  });
+  private snapshots = new Map<number, (image: ImageBitmap | null) => void>();
+  private nextSnapshot = 1;
+  private disposed = false;
+
+  /** Whether `canvas` can be rendered in a worker: the API exists and its control hasn't been handed over yet. */
+  static canTransfer(canvas: HTMLCanvasElement) {
+    return (
+      typeof Worker !== "undefined" &&
+      typeof canvas.transferControlToOffscreen === "function" &&
+      !transferred.has(canvas)
+    );
+  }
+
+  static create(canvas: HTMLCanvasElement, options: WorkerSurfaceOptions = {}) {
+    if (!WorkerHologramSurface.canTransfer(canvas)) return null;
+    return new WorkerHologramSurface(canvas, options);
+  }
+
+  private readonly worker: Worker;
+
+  private constructor(
+    readonly canvas: HTMLCanvasElement,
+    private readonly options: WorkerSurfaceOptions
+  ) {
+    this.devicePixelRatio = options.devicePixelRatio ?? (window.devicePixelRatio || 1);
+    this.worker = (options.createWorker ?? spawnHologramWorker)();
+    this.worker.addEventListener("message", this.onMessage);
+    this.worker.addEventListener("error", this.onError);
+    const offscreen = canvas.transferControlToOffscreen();
+    transferred.add(canvas);
+    this.post(
+      {
+        type: "init",
+        canvas: offscreen,
+        ...this.size,
+        devicePixelRatio: this.devicePixelRatio,
+        maxDpr: options.maxDpr ?? DEFAULT_MAX_DPR,
+        params: options.params ?? DEFAULT_HOLOGRAM,
+        masked: !!options.emblem,
+      },
+      [offscreen]
+    );
+    this.setEmblem(options.emblem ?? null);
+  }
+
+  setTilt(x: number, y: number) {
+    this.post({ type: "tilt", x, y });
+  }
+
+  resize(width: number, height: number, devicePixelRatio = this.devicePixelRatio) {
+    if (width === this.size.width && height === this.size.height && devicePixelRatio === this.devicePixelRatio) return;
+    this.size = { width, height };
+    this.devicePixelRatio = devicePixelRatio;
+    this.post({ type: "resize", width, height, devicePixelRatio });
+    this.sendMask();
+  }
+
+  setParams(params: HologramParams) {
+    this.post({ type: "params", params });
+  }
+
+  setResolutionScale(scale: number) {
+    if (scale === this.scale) return;
+    this.scale = scale;
+    this.post({ type: "scale", scale });
+    this.sendMask();
+  }
+
+  setEmblem(url: string | null) {
+    this.emblemLoader.set(url);
+  }
+
+  /** The worker's last frame, redrawn at the current tilt. */
+  snapshot() {
+    const id = this.nextSnapshot++;
+    return new Promise<CanvasImageSource>((resolve, reject) => {
+      this.snapshots.set(id, (image) => (image ? resolve(image) : reject(new Error("Hologram snapshot failed"))));
+      this.post({ type: "snapshot", id });
+    });
+  }
+
+  dispose() {
+    if (this.disposed) return;
+    this.post({ type: "dispose" });
+    this.disposed = true;
+    this.emblemLoader.dispose();
+    this.worker.removeEventListener("message", this.onMessage);
+    this.worker.removeEventListener("error", this.onError);
+    this.worker.terminate();
+    this.snapshots.forEach((settle) => settle(null));
+    this.snapshots.clear();
+  }
+
+  private post(message: ToWorker, transfer: Transferable[] = []) {
+    if (!this.disposed) this.worker.postMessage(message, transfer);
+  }
+
+  // Re-rasterise at the worker's buffer size (layout × capped DPR × scale)
+  private sendMask() {
+    const img = this.emblemImage;
+    if (!img || typeof createImageBitmap === "undefined") return;
+    const version = ++this.maskVersion;
+    const { width, height } = drawingBufferSize(
+      this.size.width,
+      this.size.height,
+      this.devicePixelRatio,
+      this.options.maxDpr,
+      this.scale
+    );
+    createImageBitmap(rasterizeEmblem(img, width, height))
+      .then((bitmap) => {
+        if (this.disposed || version !== this.maskVersion) return bitmap.close();
+        this.post({ type: "mask", mask: bitmap }, [bitmap]);
+      })
+      .catch((err) => console.warn("Hologram emblem could not be rasterised for the worker", err));
+  }
+
+  private onMessage = (ev: MessageEvent<FromWorker>) => {
+    const msg = ev.data;
+    switch (msg.type) {
+      case "frame":
+        this.options.onFrame?.(msg.drawMs);
+        break;
+      case "context":
+        this.options.onContextChange?.(msg.state);
+        break;
+      case "snapshot":
+        this.snapshots.get(msg.id)?.(msg.image);
+        this.snapshots.delete(msg.id);
+        break;
+      case "failed":
+        this.options.onFailure?.(msg.reason, msg.message);
+        break;
+    }
+  };
+
+  private onError = (ev: ErrorEvent) => {
+    this.options.onFailure?.("no-webgl", ev.message || "Hologram worker failed to start");
+  };
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { cssUrl, tiltSweep } from "./cardSnapshot";
+
+describe("tiltSweep", () => {
+  it("spaces frames evenly and includes both ends", () => {
+    const frames = tiltSweep({ x: 10, y: 50 }, { x: 90, y: 50 }, 24);
+    expect(frames).toHaveLength(24);
+    expect(frames[0]).toEqual({ x: 10, y: 50 });
+    expect(frames[23]).toEqual({ x: 90, y: 50 });
+    expect(frames[1].x - frames[0].x).toBeCloseTo(80 / 23);
+  });
+
+  it("returns the start tilt for a single frame", () => {
+    expect(tiltSweep({ x: 30, y: 40 }, { x: 90, y: 90 }, 1)).toEqual([{ x: 30, y: 40 }]);
+  });
+});
+
+describe("cssUrl", () => {
+  it("extracts quoted and bare urls", () => {
+    expect(cssUrl('url("https://x.test/a.png")')).toBe("https://x.test/a.png");
+    expect(cssUrl("url(mask.png), linear-gradient(red, blue)")).toBe("mask.png");
+    expect(cssUrl("none")).toBeNull();
+  });
+});
@@ -0,0 +1,215 @@
+// ====== Card snapshot: compose the layered card into one PNG ======
+// The card is two stacked layers: the hologram canvas (already masked and lit
+// by its renderer) and the DOM foreground. The canvas is copied with its CSS
+// opacity and blend mode; the foreground is rasterised through an SVG
+// <foreignObject> with its computed styles inlined.
+
+/** Tilt in percent on both axes (50 = level), the same units as the card's spring. */
+export interface Tilt {
+  x: number;
+  y: number;
+}
+
+export interface CaptureOptions {
+  /** Output pixels per CSS pixel; fixed rather than DPR so stills match across machines. */
+  scale?: number;
+}
+
+/** Exposed by `DigitalLicence` for design-review stills and visual regression. */
+export interface CardRenderControl {
+  /** Hold the card at `tilt`, ignoring input and ambient drift; null resumes live motion. */
+  freeze(tilt: Tilt | null): void;
+  /** Compose the visible face at the current tilt into a PNG. */
+  capture(options?: CaptureOptions): Promise<Blob>;
+}
+
+export interface CardLayers {
+  /** Output frame; the other layers are positioned relative to it. */
+  frame: HTMLElement;
+  hologram: HTMLCanvasElement | null;
+  /** Pixels to use instead of reading `hologram`, e.g. a worker's snapshot of an offscreen-controlled canvas. */
+  hologramImage?: CanvasImageSource;
+  /** The visible card face. */
+  foreground: HTMLElement;
+}
+
+/** `frames` evenly spaced tilts from `from` to `to`, both ends included. */
+export function tiltSweep(from: Tilt, to: Tilt, frames: number): Tilt[] {
+  const n = Math.max(1, Math.floor(frames));
+  if (n === 1) return [{ ...from }];
+  return Array.from({ length: n }, (_, i) => {
+    const t = i / (n - 1);
+    return { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t };
+  });
+}
+
+/** First `url(...)` in a computed CSS value, or null. */
+export function cssUrl(value: string | null | undefined) {
+  const m = value?.match(/url\(\s*(['"]?)(.*?)\1\s*\)/);
+  return m ? m[2] : null;
+}
+
+// ------- Asset loading -------
+function loadImage(src: string) {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    // Remote images must be CORS-enabled or the output canvas is tainted
+    if (!src.startsWith("data:")) img.crossOrigin = "anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not load image: " + src));
+    img.src = src;
+  });
+}
+
+async function toDataUrl(src: string) {
+  if (src.startsWith("data:")) return src;
+  const blob = await (await fetch(src, { mode: "cors" })).blob();
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/** Resolve once every <img> under `root` has decoded and web fonts are ready. */
+export async function waitForAssets(root: HTMLElement) {
+  const images = Array.from(root.querySelectorAll("img"));
+  await Promise.all(images.map((img) => img.decode().catch(() => undefined)));
+  await document.fonts?.ready;
+}
+
+// ------- Layers -------
+/** Layout box of `el` relative to `frame`, ignoring CSS transforms (e.g. the flip). */
+function boxIn(el: HTMLElement, frame: HTMLElement) {
+  let x = 0,
+    y = 0;
+  let node: HTMLElement | null = el;
+  while (node && node !== frame) {
+    x += node.offsetLeft;
+    y += node.offsetTop;
+    node = node.offsetParent as HTMLElement | null;
+  }
+  return { x, y, w: el.offsetWidth, h: el.offsetHeight };
+}
+
+function backgroundBehind(el: HTMLElement) {
+  for (let node: HTMLElement | null = el; node; node = node.parentElement) {
+    const bg = getComputedStyle(node).backgroundColor;
+    if (bg && bg !== "transparent" && !/rgba\(.*,\s*0\)$/.test(bg)) return bg;
+  }
+  return "#ffffff";
+}
+
+// CSS blend modes share names with canvas composite operations, except "normal"
+function compositeFor(blend: string): GlobalCompositeOperation {
+  return !blend || blend === "normal" ? "source-over" : (blend as GlobalCompositeOperation);
+}
+
+/** Draw the hologram copy into its box with the canvas element's CSS opacity and blend mode. */
+function drawEffectLayer(ctx: CanvasRenderingContext2D, el: HTMLElement, source: CanvasImageSource, frame: HTMLElement) {
+  const box = boxIn(el, frame);
+  const style = getComputedStyle(el);
+  ctx.save();
+  ctx.globalAlpha = Number(style.opacity || 1);
+  ctx.globalCompositeOperation = compositeFor(style.mixBlendMode);
+  ctx.drawImage(source, box.x, box.y, box.w, box.h);
+  ctx.restore();
+}
+
+// ------- Foreground rasterisation -------
+function inlineStyles(source: Element, clone: Element) {
+  const cs = getComputedStyle(source);
+  let text = "";
+  for (let i = 0; i < cs.length; i++) {
+    const prop = cs[i];
+    text += `${prop}:${cs.getPropertyValue(prop)};`;
+  }
+  clone.setAttribute("style", text);
+  for (let i = 0; i < source.children.length; i++) inlineStyles(source.children[i], clone.children[i]);
+}
+
+// An SVG image can't fetch anything, so every referenced image becomes a data URL
+async function inlineImages(clone: HTMLElement) {
+  const jobs: Promise<void>[] = [];
+  clone.querySelectorAll("img").forEach((img) => {
+    jobs.push(
+      toDataUrl(img.src)
+        .then((url) => img.setAttribute("src", url))
+        .catch(() => undefined)
+    );
+  });
+  [clone, ...Array.from(clone.querySelectorAll<HTMLElement>("*"))].forEach((el) => {
+    const url = cssUrl(el.style.backgroundImage);
+    if (!url) return;
+    jobs.push(
+      toDataUrl(url)
+        .then((data) => el.style.setProperty("background-image", `url("${data}")`))
+        .catch(() => undefined)
+    );
+  });
+  await Promise.all(jobs);
+}
+
+/** Render `el` (layout as on screen, transforms dropped) into an image. */
+export async function rasterizeElement(el: HTMLElement) {
+  const clone = el.cloneNode(true) as HTMLElement;
+  inlineStyles(el, clone);
+  // The face is laid out in place; drop the flip and positioning so it sits at 0,0
+  clone.style.setProperty("transform", "none");
+  clone.style.setProperty("position", "relative");
+  clone.style.setProperty("inset", "auto");
+  clone.style.setProperty("margin", "0");
+  clone.style.setProperty("backface-visibility", "visible");
+  clone.style.setProperty("-webkit-backface-visibility", "visible");
+  await inlineImages(clone);
+
+  const { offsetWidth: w, offsetHeight: h } = el;
+  const xhtml = new XMLSerializer().serializeToString(clone);
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${w}" height="${h}">` +
+    `<foreignObject x="0" y="0" width="100%" height="100%">${xhtml}</foreignObject></svg>`;
+  return loadImage("data:image/svg+xml;charset=utf-8," + encodeURIComponent(svg));
+}
+
+function canvasToPng(canvas: HTMLCanvasElement) {
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("PNG encoding failed"))), "image/png");
+  });
+}
+
+/**
+ * Composite background, hologram and foreground into a PNG the size
+ * of `frame`. The hologram is copied synchronously, before the first await:
+ * a WebGL canvas is only guaranteed readable in the task that drew it.
+ */
+export async function composeCard(layers: CardLayers, { scale = 2 }: CaptureOptions = {}) {
+  const { frame } = layers;
+  const width = frame.offsetWidth,
+    height = frame.offsetHeight;
+
+  let hologramCopy: CanvasImageSource | null = layers.hologramImage ?? null;
+  if (layers.hologram && !hologramCopy) {
+    const copy = document.createElement("canvas");
+    copy.width = layers.hologram.width;
+    copy.height = layers.hologram.height;
+    copy.getContext("2d")!.drawImage(layers.hologram, 0, 0);
+    hologramCopy = copy;
+  }
+
+  await waitForAssets(frame);
+  const out = document.createElement("canvas");
+  out.width = Math.round(width * scale);
+  out.height = Math.round(height * scale);
+  const ctx = out.getContext("2d")!;
+  ctx.scale(scale, scale);
+  ctx.fillStyle = backgroundBehind(frame);
+  ctx.fillRect(0, 0, width, height);
+
+  if (layers.hologram && hologramCopy) drawEffectLayer(ctx, layers.hologram, hologramCopy, frame);
+
+  const face = await rasterizeElement(layers.foreground);
+  const box = boxIn(layers.foreground, frame);
+  ctx.drawImage(face, box.x, box.y, box.w, box.h);
+  return canvasToPng(out);
+}
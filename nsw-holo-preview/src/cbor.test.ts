@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { CborError, CborTag, decodeCbor } from "./cbor";
+import { encodeCbor } from "./test/cborEncode";
+
+const hex = (s: string) => Uint8Array.from(s.match(/../g) ?? [], (b) => parseInt(b, 16));
+
+describe("decodeCbor", () => {
+  // Vectors from RFC 8949 appendix A
+  it("decodes the RFC examples", () => {
+    expect(decodeCbor(hex("00"))).toBe(0);
+    expect(decodeCbor(hex("1903e8"))).toBe(1000);
+    expect(decodeCbor(hex("3903e7"))).toBe(-1000);
+    expect(decodeCbor(hex("1b000000e8d4a51000"))).toBe(1000000000000);
+    expect(decodeCbor(hex("f93c00"))).toBe(1);
+    expect(decodeCbor(hex("f90001"))).toBe(5.960464477539063e-8);
+    expect(decodeCbor(hex("fa47c35000"))).toBe(100000);
+    expect(decodeCbor(hex("fb3ff199999999999a"))).toBe(1.1);
+    expect(decodeCbor(hex("f4"))).toBe(false);
+    expect(decodeCbor(hex("f6"))).toBeNull();
+    expect(decodeCbor(hex("6449455446"))).toBe("IETF");
+    expect(decodeCbor(hex("62c3bc"))).toBe("ü");
+    expect(decodeCbor(hex("4401020304"))).toEqual(hex("01020304"));
+    expect(decodeCbor(hex("8301820203820405"))).toEqual([1, [2, 3], [4, 5]]);
+    expect(decodeCbor(hex("a26161016162820203"))).toEqual(new Map<unknown, unknown>([["a", 1], ["b", [2, 3]]]));
+    expect(decodeCbor(hex("c074323031332d30332d32315432303a30343a30305a"))).toEqual(new CborTag(0, "2013-03-21T20:04:00Z"));
+  });
+
+  it("joins indefinite-length strings and containers", () => {
+    expect(decodeCbor(hex("5f42010243030405ff"))).toEqual(hex("0102030405"));
+    expect(decodeCbor(hex("7f657374726561646d696e67ff"))).toBe("streaming");
+    expect(decodeCbor(hex("9f018202039f0405ffff"))).toEqual([1, [2, 3], [4, 5]]);
+    expect(decodeCbor(hex("bf61610161629f0203ffff"))).toEqual(new Map<unknown, unknown>([["a", 1], ["b", [2, 3]]]));
+  });
+
+  it("round-trips the fixture encoder", () => {
+    const value = new Map<unknown, unknown>([
+      ["documents", [{ docType: "org.iso.18013.5.1.mDL" }]],
+      [-7, new CborTag(1004, "2030-07-13")],
+      ["bytes", new Uint8Array(300).fill(7)],
+    ]);
+    const decoded = decodeCbor(encodeCbor(value)) as Map<unknown, unknown>;
+    expect(decoded.get(-7)).toEqual(new CborTag(1004, "2030-07-13"));
+    expect(decoded.get("documents")).toEqual([new Map([["docType", "org.iso.18013.5.1.mDL"]])]);
+    expect((decoded.get("bytes") as Uint8Array).length).toBe(300);
+  });
+
+  it("reports malformed input with the byte offset", () => {
+    const error = (s: string) => {
+      try {
+        decodeCbor(hex(s));
+      } catch (err) {
+        expect(err).toBeInstanceOf(CborError);
+        return (err as CborError).message;
+      }
+      throw new Error(`${s} decoded`);
+    };
+    expect(error("")).toBe("Unexpected end of data: needs 1 more byte, 0 left (byte 0)");
+    expect(error("6449455")).toMatch(/^Unexpected end of data/);
+    expect(error("830102")).toBe("Unexpected end of data: needs 1 more byte, 0 left (byte 3)");
+    expect(error("0001")).toBe("1 trailing bytes after the data item (byte 1)");
+    expect(error("62c328")).toBe("Text string is not valid UTF-8 (byte 0)");
+    expect(error("ff")).toBe("Unexpected break (byte 0)");
+    expect(error("8201ff")).toBe("Unexpected break (byte 2)");
+    expect(error("1c")).toBe("Reserved additional information 28 (byte 0)");
+    expect(error("5f6161ff")).toBe("Malformed indefinite-length string (byte 0)");
+    expect(error("81".repeat(100) + "00")).toMatch(/^Nested too deeply/);
+  });
+});
@@ -0,0 +1,197 @@
+// ====== Minimal CBOR decoder (RFC 8949), enough for ISO 18013-5 mdoc ======
+// Maps decode to `Map` (COSE and mdoc use integer keys too), byte strings to
+// Uint8Array and tagged items to `CborTag`, left for the caller to interpret
+// (mdoc uses tag 24 for embedded CBOR and 1004 / 0 for dates).
+
+export class CborError extends Error {
+  constructor(message: string, public readonly offset: number) {
+    super(`${message} (byte ${offset})`);
+    this.name = "CborError";
+  }
+}
+
+export class CborTag {
+  constructor(
+    readonly tag: number,
+    readonly value: unknown
+  ) {}
+}
+
+// Deeper than any real document; stops hostile input from exhausting the stack
+const MAX_DEPTH = 64;
+const BREAK = Symbol("break");
+
+export function decodeCbor(bytes: Uint8Array): unknown {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const text = new TextDecoder("utf-8", { fatal: true });
+  let pos = 0;
+
+  const need = (n: number) => {
+    if (pos + n > bytes.length) {
+      throw new CborError(`Unexpected end of data: needs ${n} more byte${n === 1 ? "" : "s"}, ${bytes.length - pos} left`, pos);
+    }
+  };
+
+  // Argument of the initial byte; null means indefinite length
+  const readArgument = (info: number, start: number): number | null => {
+    if (info < 24) return info;
+    switch (info) {
+      case 24:
+        need(1);
+        return view.getUint8(pos++);
+      case 25:
+        need(2);
+        pos += 2;
+        return view.getUint16(pos - 2);
+      case 26:
+        need(4);
+        pos += 4;
+        return view.getUint32(pos - 4);
+      case 27: {
+        need(8);
+        const value = view.getBigUint64(pos);
+        pos += 8;
+        if (value > BigInt(Number.MAX_SAFE_INTEGER)) throw new CborError("Integer too large", start);
+        return Number(value);
+      }
+      case 31:
+        return null;
+      default:
+        throw new CborError(`Reserved additional information ${info}`, start);
+    }
+  };
+
+  const readBytes = (length: number) => {
+    need(length);
+    pos += length;
+    return bytes.subarray(pos - length, pos);
+  };
+
+  // Indefinite-length strings are chunks of definite strings of the same major type
+  const readChunks = (major: number, start: number) => {
+    const chunks: Uint8Array[] = [];
+    for (;;) {
+      need(1);
+      if (bytes[pos] === 0xff) {
+        pos++;
+        break;
+      }
+      const initial = bytes[pos++];
+      const length = initial >> 5 === major ? readArgument(initial & 0x1f, pos - 1) : null;
+      if (length === null) throw new CborError("Malformed indefinite-length string", start);
+      chunks.push(readBytes(length));
+    }
+    const joined = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+    chunks.reduce((offset, c) => (joined.set(c, offset), offset + c.length), 0);
+    return joined;
+  };
+
+  const readItem = (depth: number): unknown => {
+    if (depth > MAX_DEPTH) throw new CborError("Nested too deeply", pos);
+    need(1);
+    const start = pos;
+    const initial = bytes[pos++];
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    if (major === 7) {
+      switch (info) {
+        case 20:
+          return false;
+        case 21:
+          return true;
+        case 22:
+          return null;
+        case 23:
+          return undefined;
+        case 25:
+          need(2);
+          pos += 2;
+          return halfToNumber(view.getUint16(pos - 2));
+        case 26:
+          need(4);
+          pos += 4;
+          return view.getFloat32(pos - 4);
+        case 27:
+          need(8);
+          pos += 8;
+          return view.getFloat64(pos - 8);
+        case 31:
+          return BREAK;
+        default:
+          throw new CborError(`Unsupported simple value ${info}`, start);
+      }
+    }
+
+    const arg = readArgument(info, start);
+    switch (major) {
+      case 0:
+        return arg ?? fail("Indefinite length on an integer", start);
+      case 1:
+        return arg === null ? fail("Indefinite length on an integer", start) : -1 - arg;
+      case 2:
+        return arg === null ? readChunks(2, start) : readBytes(arg).slice();
+      case 3:
+        try {
+          return text.decode(arg === null ? readChunks(3, start) : readBytes(arg));
+        } catch (err) {
+          if (err instanceof CborError) throw err;
+          throw new CborError("Text string is not valid UTF-8", start);
+        }
+      case 4: {
+        const items: unknown[] = [];
+        for (let i = 0; arg === null || i < arg; i++) {
+          const item = readItem(depth + 1);
+          if (item === BREAK) {
+            if (arg === null) break;
+            throw new CborError("Unexpected break", pos - 1);
+          }
+          items.push(item);
+        }
+        return items;
+      }
+      case 5: {
+        const map = new Map<unknown, unknown>();
+        for (let i = 0; arg === null || i < arg; i++) {
+          const key = readItem(depth + 1);
+          if (key === BREAK) {
+            if (arg === null) break;
+            throw new CborError("Unexpected break", pos - 1);
+          }
+          const value = readItem(depth + 1);
+          if (value === BREAK) throw new CborError("Map key without a value", pos - 1);
+          map.set(key, value);
+        }
+        return map;
+      }
+      case 6:
+        if (arg === null) throw new CborError("Indefinite length on a tag", start);
+        return new CborTag(arg, readDefined(depth + 1));
+    }
+    throw new CborError(`Unknown major type ${major}`, start);
+  };
+
+  const readDefined = (depth: number) => {
+    const item = readItem(depth);
+    if (item === BREAK) throw new CborError("Unexpected break", pos - 1);
+    return item;
+  };
+
+  const value = readDefined(0);
+  if (pos !== bytes.length) throw new CborError(`${bytes.length - pos} trailing bytes after the data item`, pos);
+  return value;
+}
+
+function fail(message: string, offset: number): never {
+  throw new CborError(message, offset);
+}
+
+// IEEE 754 half precision
+function halfToNumber(half: number) {
+  const exponent = (half >> 10) & 0x1f;
+  const fraction = half & 0x3ff;
+  const sign = half & 0x8000 ? -1 : 1;
+  if (exponent === 0) return sign * 2 ** -14 * (fraction / 1024);
+  if (exponent === 31) return fraction ? NaN : sign * Infinity;
+  return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { base64UrlEncode, getDevIssuer, signCredential, verifyCredential } from "./credential";
+
+describe("credential signing", () => {
+  it("verifies, expires and detects tampering", async () => {
+    const issuer = await getDevIssuer();
+    const trusted = [{ kid: issuer.kid, name: "dev", publicJwk: issuer.publicJwk }];
+    const token = await signCredential({ num: "1234" }, issuer, { ttlSeconds: 60 });
+
+    expect((await verifyCredential(token, trusted)).status).toBe("valid");
+    expect((await verifyCredential(token, trusted, Date.now() + 61_000)).status).toBe("expired");
+    expect((await verifyCredential(token, [])).status).toBe("unknown-issuer");
+
+    const [header, , sig] = token.split(".");
+    const forged = base64UrlEncode(new TextEncoder().encode(JSON.stringify({ num: "9999", iat: 0, exp: 9e9 })));
+    expect((await verifyCredential(`${header}.${forged}.${sig}`, trusted)).status).toBe("tampered");
+    expect((await verifyCredential("not-a-token", trusted)).status).toBe("malformed");
+  });
+
+  it("reports keys and signatures WebCrypto can't use instead of rejecting", async () => {
+    const issuer = await getDevIssuer();
+    const trusted = [{ kid: issuer.kid, name: "dev", publicJwk: issuer.publicJwk }];
+    const token = await signCredential({ num: "1234" }, issuer);
+    const [header, payload] = token.split(".");
+
+    const short = await verifyCredential(`${header}.${payload}.${base64UrlEncode(new Uint8Array(7))}`, trusted);
+    expect(short.status).toBe("tampered");
+    expect(short.detail).toBeTruthy();
+
+    const badKey = await verifyCredential(token, [{ ...trusted[0], publicJwk: { kty: "EC", crv: "P-256", x: "AA" } }]);
+    expect(badKey.status).toBe("malformed");
+    expect(badKey.detail).toMatch(/^the key for "nsw-dev-1" can't be used/);
+  });
+});
@@ -0,0 +1,147 @@
+// ====== Signed credential payload (ES256 via WebCrypto, JWS compact form) ======
+// token = base64url(header) "." base64url(payload) "." base64url(signature)
+
+export interface CredentialHeader {
+  alg: "ES256";
+  typ: "nsw-cred";
+  kid: string;
+}
+
+/** Signed body: arbitrary claims plus issued-at / expiry in epoch seconds. */
+export type CredentialPayload<C extends object = Record<string, unknown>> = C & { iat: number; exp: number };
+
+export interface IssuerKey {
+  kid: string;
+  privateKey: CryptoKey;
+  publicJwk: JsonWebKey;
+}
+
+export interface TrustedIssuer {
+  kid: string;
+  name: string;
+  publicJwk: JsonWebKey;
+}
+
+export type VerificationStatus = "valid" | "expired" | "tampered" | "unknown-issuer" | "malformed";
+
+export interface VerificationResult {
+  status: VerificationStatus;
+  header?: CredentialHeader;
+  payload?: CredentialPayload;
+  issuer?: TrustedIssuer;
+  detail?: string;
+}
+
+const ALGORITHM = { name: "ECDSA", namedCurve: "P-256" } as const;
+const SIGN_PARAMS = { name: "ECDSA", hash: "SHA-256" } as const;
+
+// ------- base64url -------
+export function base64UrlEncode(bytes: Uint8Array) {
+  let bin = "";
+  bytes.forEach((b) => (bin += String.fromCharCode(b)));
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function base64UrlDecode(text: string) {
+  if (!/^[A-Za-z0-9_-]*$/.test(text)) throw new Error("not base64url");
+  const b64 = text.replace(/-/g, "+").replace(/_/g, "/") + "===".slice((text.length + 3) % 4);
+  const bin = atob(b64);
+  const out = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i);
+  return out;
+}
+
+const utf8 = new TextEncoder();
+const encodeJson = (value: unknown) => base64UrlEncode(utf8.encode(JSON.stringify(value)));
+const decodeJson = (text: string) => JSON.parse(new TextDecoder().decode(base64UrlDecode(text)));
+
+// ------- Local dev issuer -------
+const DEV_KEY_STORAGE = "nsw-holo.dev-issuer";
+export const DEV_ISSUER_KID = "nsw-dev-1";
+
+let devIssuer: Promise<IssuerKey> | null = null;
+
+/**
+ * Dev keypair shared by the card and the verifier. Persisted in localStorage so
+ * tokens copied before a reload still verify; regenerated if storage is empty.
+ */
+export function getDevIssuer(): Promise<IssuerKey> {
+  devIssuer ??= (async () => {
+    try {
+      const stored = localStorage.getItem(DEV_KEY_STORAGE);
+      if (stored) {
+        const { privateJwk, publicJwk } = JSON.parse(stored) as { privateJwk: JsonWebKey; publicJwk: JsonWebKey };
+        const privateKey = await crypto.subtle.importKey("jwk", privateJwk, ALGORITHM, false, ["sign"]);
+        return { kid: DEV_ISSUER_KID, privateKey, publicJwk };
+      }
+    } catch {
+      /* fall through and mint a fresh pair */
+    }
+    const pair = await crypto.subtle.generateKey(ALGORITHM, true, ["sign", "verify"]);
+    const privateJwk = await crypto.subtle.exportKey("jwk", pair.privateKey);
+    const publicJwk = await crypto.subtle.exportKey("jwk", pair.publicKey);
+    try {
+      localStorage.setItem(DEV_KEY_STORAGE, JSON.stringify({ privateJwk, publicJwk }));
+    } catch {}
+    return { kid: DEV_ISSUER_KID, privateKey: pair.privateKey, publicJwk };
+  })();
+  return devIssuer;
+}
+
+// ------- Issue / verify -------
+export async function signCredential<C extends object>(
+  claims: C,
+  issuer: IssuerKey,
+  options: { ttlSeconds?: number; now?: number } = {}
+) {
+  const iat = Math.floor((options.now ?? Date.now()) / 1000);
+  const header: CredentialHeader = { alg: "ES256", typ: "nsw-cred", kid: issuer.kid };
+  const payload = { ...claims, iat, exp: iat + (options.ttlSeconds ?? 24 * 60 * 60) };
+  const signingInput = `${encodeJson(header)}.${encodeJson(payload)}`;
+  const sig = await crypto.subtle.sign(SIGN_PARAMS, issuer.privateKey, utf8.encode(signingInput));
+  return `${signingInput}.${base64UrlEncode(new Uint8Array(sig))}`;
+}
+
+export async function verifyCredential(
+  token: string,
+  trusted: TrustedIssuer[],
+  now = Date.now()
+): Promise<VerificationResult> {
+  const parts = token.trim().split(".");
+  if (parts.length !== 3) return { status: "malformed", detail: "expected three dot-separated segments" };
+
+  let header: CredentialHeader;
+  let payload: CredentialPayload;
+  let signature: ReturnType<typeof base64UrlDecode>;
+  try {
+    header = decodeJson(parts[0]);
+    payload = decodeJson(parts[1]);
+    signature = base64UrlDecode(parts[2]);
+  } catch (err) {
+    return { status: "malformed", detail: String(err) };
+  }
+  if (!header || !payload || header.alg !== "ES256" || typeof payload.iat !== "number" || typeof payload.exp !== "number") {
+    return { status: "malformed", header, detail: "unsupported algorithm or missing iat/exp" };
+  }
+
+  const issuer = trusted.find((t) => t.kid === header.kid);
+  if (!issuer) return { status: "unknown-issuer", header, payload, detail: `kid "${header.kid}" is not trusted` };
+
+  // WebCrypto rejects rather than answering for unusable keys or signatures, and is missing on insecure origins
+  let key: CryptoKey;
+  try {
+    key = await crypto.subtle.importKey("jwk", issuer.publicJwk, ALGORITHM, false, ["verify"]);
+  } catch (err) {
+    return { status: "malformed", header, payload, issuer, detail: `the key for "${issuer.kid}" can't be used: ${String(err)}` };
+  }
+  let ok: boolean;
+  try {
+    ok = await crypto.subtle.verify(SIGN_PARAMS, key, signature, utf8.encode(`${parts[0]}.${parts[1]}`));
+  } catch (err) {
+    return { status: "tampered", header, payload, issuer, detail: `signature can't be checked: ${String(err)}` };
+  }
+  if (!ok) return { status: "tampered", header, payload, issuer, detail: "signature does not match" };
+
+  if (now / 1000 >= payload.exp) return { status: "expired", header, payload, issuer };
+  return { status: "valid", header, payload, issuer };
+}
@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { CredentialServiceError, createMockCredentialService } from "./credentialService";
+import { SAMPLE_LICENCES } from "./licence";
+
+const now = () => new Date("2025-03-01T09:30:00Z");
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("createMockCredentialService", () => {
+  it("answers after the configured latency with a fresh refresh time", async () => {
+    vi.useFakeTimers();
+    const service = createMockCredentialService({ latencyMs: 500, now });
+    let done = false;
+    const pending = service.refresh(SAMPLE_LICENCES.trevor).then((r) => ((done = true), r));
+    await vi.advanceTimersByTimeAsync(499);
+    expect(done).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    expect((await pending).refreshedAt).toBe("2025-03-01T09:30:00.000Z");
+  });
+
+  it("returns the newer record for the same licence number", async () => {
+    const suspended = { ...SAMPLE_LICENCES.trevor, status: "suspended" as const };
+    const service = createMockCredentialService({ latencyMs: 0, records: [suspended], now });
+    expect((await service.refresh(SAMPLE_LICENCES.trevor)).status).toBe("suspended");
+  });
+
+  it("fails when offline or by the failure rate", async () => {
+    await expect(createMockCredentialService({ latencyMs: 0, offline: true }).refresh(SAMPLE_LICENCES.trevor)).rejects.toThrow(
+      CredentialServiceError
+    );
+    const flaky = createMockCredentialService({ latencyMs: 0, failureRate: 0.5, random: () => 0.4 });
+    await expect(flaky.refresh(SAMPLE_LICENCES.trevor)).rejects.toThrow(/unreachable/);
+  });
+
+  it("stops waiting when aborted", async () => {
+    const controller = new AbortController();
+    const pending = createMockCredentialService({ latencyMs: 10_000 }).refresh(SAMPLE_LICENCES.trevor, controller.signal);
+    controller.abort();
+    await expect(pending).rejects.toBeDefined();
+  });
+});
@@ -0,0 +1,64 @@
+// ====== Credential service: where a refresh gets fresh licence data ======
+// The card only depends on the interface; the preview plugs in the mock below,
+// whose latency and failures are tunable to rehearse slow and offline refreshes.
+import type { LicenceData } from "./licence";
+
+export interface CredentialService {
+  /** Current record for `licence` with `refreshedAt` set to the time of the fetch. */
+  refresh(licence: LicenceData, signal?: AbortSignal): Promise<LicenceData>;
+}
+
+/** The service couldn't be reached; the card keeps showing its last good record. */
+export class CredentialServiceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CredentialServiceError";
+  }
+}
+
+export interface MockServiceOptions {
+  /** Delay before each response. */
+  latencyMs?: number;
+  /** Chance (0..1) that a refresh fails as if the network dropped. */
+  failureRate?: number;
+  /** Every refresh fails. */
+  offline?: boolean;
+  /** Newer records by licence number, e.g. a suspension recorded since the last refresh. */
+  records?: LicenceData[];
+  now?: () => Date;
+  random?: () => number;
+}
+
+export const DEFAULT_MOCK_SERVICE: Required<Pick<MockServiceOptions, "latencyMs" | "failureRate" | "offline">> = {
+  latencyMs: 800,
+  failureRate: 0,
+  offline: false,
+};
+
+function delay(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    });
+  });
+}
+
+/** In-memory stand-in for the issuer's credential API. */
+export function createMockCredentialService(options: MockServiceOptions = {}): CredentialService {
+  const { latencyMs, failureRate, offline } = { ...DEFAULT_MOCK_SERVICE, ...options };
+  const now = options.now ?? (() => new Date());
+  const random = options.random ?? Math.random;
+  const records = new Map((options.records ?? []).map((r) => [r.licenceNumber, r]));
+
+  return {
+    async refresh(licence, signal) {
+      await delay(latencyMs, signal);
+      if (offline || random() < failureRate) throw new CredentialServiceError("Credential service unreachable");
+      const record = records.get(licence.licenceNumber) ?? licence;
+      return { ...record, refreshedAt: now().toISOString() };
+    },
+  };
+}
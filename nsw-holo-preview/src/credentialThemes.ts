@@ -0,0 +1,102 @@
+// ====== Credential themes: per-type look of the card (pure) ======
+// The card's accents, title and field set follow the credential type read from
+// the licence record, so a P1 or a Photo Card needs data, not a JSX edit.
+// Class names are written out in full so Tailwind's scanner picks them up.
+import { credentialTypeOf, type CredentialType, type LicenceData } from "./licence";
+import type { HologramTint } from "./hologramPresets";
+
+/** Optional sections of the card; a theme lists the ones it shows. */
+export type ThemeField = "classes" | "conditions" | "classHistory";
+
+export interface CredentialTheme {
+  /** Header title. */
+  title: string;
+  /** Heading on the back of the card. */
+  detailsTitle: string;
+  /** Label above the credential number. */
+  numberLabel: string;
+  /** Thin strip under the header. */
+  stripClass: string;
+  /** Text colour for names and values. */
+  accentClass: string;
+  /** Plate shown beside the name (L, P), as worn on the vehicle. */
+  badge?: { label: string; className: string; description: string };
+  fields: ThemeField[];
+  /** Hologram colour wash; omitted for the standard foil. */
+  tint?: HologramTint;
+}
+
+const LICENCE_FIELDS: ThemeField[] = ["classes", "conditions", "classHistory"];
+
+const licenceTheme = (title: string, theme: Omit<CredentialTheme, "title" | "detailsTitle" | "numberLabel" | "fields">) => ({
+  title,
+  detailsTitle: "Licence details",
+  numberLabel: "LICENCE NUMBER",
+  fields: LICENCE_FIELDS,
+  ...theme,
+});
+
+export const CREDENTIAL_THEMES: Record<CredentialType, CredentialTheme> = {
+  learner: licenceTheme("NSW Learner Licence", {
+    stripClass: "bg-yellow-400",
+    accentClass: "text-gray-900",
+    badge: { label: "L", className: "bg-yellow-300 text-black", description: "Learner" },
+    tint: { color: "#facc15", amount: 0.45 },
+  }),
+  p1: licenceTheme("NSW Provisional P1 Licence", {
+    stripClass: "bg-red-600",
+    accentClass: "text-red-800",
+    badge: { label: "P", className: "bg-white text-red-600 ring-2 ring-red-600", description: "Provisional P1" },
+    tint: { color: "#dc2626", amount: 0.4 },
+  }),
+  p2: licenceTheme("NSW Provisional P2 Licence", {
+    stripClass: "bg-green-600",
+    accentClass: "text-green-800",
+    badge: { label: "P", className: "bg-white text-green-600 ring-2 ring-green-600", description: "Provisional P2" },
+    tint: { color: "#16a34a", amount: 0.4 },
+  }),
+  full: licenceTheme("NSW Driver Licence", {
+    stripClass: "bg-yellow-300",
+    accentClass: "text-blue-900",
+  }),
+  motorcycle: licenceTheme("NSW Rider Licence", {
+    stripClass: "bg-orange-500",
+    accentClass: "text-orange-900",
+    tint: { color: "#f97316", amount: 0.3 },
+  }),
+  heavy: licenceTheme("NSW Heavy Vehicle Licence", {
+    stripClass: "bg-sky-600",
+    accentClass: "text-sky-900",
+    tint: { color: "#0284c7", amount: 0.3 },
+  }),
+  photoCard: {
+    title: "NSW Photo Card",
+    detailsTitle: "Photo Card details",
+    numberLabel: "PHOTO CARD NUMBER",
+    stripClass: "bg-teal-500",
+    accentClass: "text-teal-900",
+    fields: [],
+    tint: { color: "#14b8a6", amount: 0.35 },
+  },
+  boat: {
+    ...licenceTheme("NSW Boat Licence", {
+      stripClass: "bg-cyan-500",
+      accentClass: "text-cyan-900",
+      tint: { color: "#06b6d4", amount: 0.35 },
+    }),
+    fields: ["classes", "conditions"],
+  },
+  rsa: {
+    title: "NSW RSA Competency Card",
+    detailsTitle: "Competency card details",
+    numberLabel: "COMPETENCY CARD NUMBER",
+    stripClass: "bg-purple-600",
+    accentClass: "text-purple-900",
+    fields: [],
+    tint: { color: "#9333ea", amount: 0.35 },
+  },
+};
+
+export function credentialTheme(licence: Pick<LicenceData, "classes" | "credentialType">): CredentialTheme {
+  return CREDENTIAL_THEMES[credentialTypeOf(licence)];
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_DEVICE_SETTINGS, deviceProfile, deviceViewport, fitScale, previewScreens } from "./deviceProfiles";
+
+describe("device profiles", () => {
+  it("turns a profile to landscape and overrides its DPR", () => {
+    const se = deviceProfile("iphone-se");
+    expect(deviceViewport(se, "portrait")).toMatchObject({ width: 375, height: 667, devicePixelRatio: 2 });
+    expect(deviceViewport(se, "landscape", 3)).toMatchObject({ width: 667, height: 375, devicePixelRatio: 3 });
+    expect(() => deviceProfile("nokia-3310")).toThrow(/Unknown device/);
+  });
+
+  it("zooms a row of screens out to fit, never in", () => {
+    expect(fitScale([{ width: 400 }, { width: 400 }], 824, 24)).toBe(1);
+    expect(fitScale([{ width: 400 }, { width: 400 }], 424, 24)).toBe(0.5);
+    expect(fitScale([{ width: 400 }], 2000)).toBe(1);
+  });
+
+  it("lists one screen, or the compared profiles in profile order", () => {
+    expect(previewScreens(DEFAULT_DEVICE_SETTINGS).map((s) => s.profile.id)).toEqual(["iphone-11"]);
+    const compared = previewScreens({ ...DEFAULT_DEVICE_SETTINGS, sideBySide: true, compareIds: ["tablet", "small-android"] });
+    expect(compared.map((s) => s.profile.id)).toEqual(["small-android", "tablet"]);
+  });
+});
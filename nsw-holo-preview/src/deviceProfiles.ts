@@ -0,0 +1,96 @@
+// ====== Device profiles for the preview frame (pure) ======
+// Screen sizes in CSS pixels (portrait) and the DPR each device renders at.
+// The preview lays the card out at these sizes, one device or several side by
+// side, since small-screen layout breakage is the bug we ship most often.
+
+export interface DeviceProfile {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+  devicePixelRatio: number;
+  cornerRadius: number;
+}
+
+export type Orientation = "portrait" | "landscape";
+
+/** Screen a card or the wallet is laid out in. */
+export interface DeviceViewport {
+  width: number;
+  height: number;
+  /** Simulated DPR for canvases; unset uses the window's. */
+  devicePixelRatio?: number;
+  cornerRadius: number;
+}
+
+export const DEVICE_PROFILES: DeviceProfile[] = [
+  { id: "small-android", label: "Small Android", width: 360, height: 640, devicePixelRatio: 2, cornerRadius: 12 },
+  { id: "iphone-se", label: "iPhone SE", width: 375, height: 667, devicePixelRatio: 2, cornerRadius: 0 },
+  { id: "iphone-11", label: "iPhone 11", width: 414, height: 896, devicePixelRatio: 2, cornerRadius: 36 },
+  { id: "pro-max", label: "iPhone Pro Max", width: 430, height: 932, devicePixelRatio: 3, cornerRadius: 48 },
+  { id: "tablet", label: "Tablet", width: 820, height: 1180, devicePixelRatio: 2, cornerRadius: 18 },
+];
+
+export const DEFAULT_DEVICE = "iphone-11";
+
+/** The layout the card has always had: the iPhone 11 screen at the window's own DPR. */
+export const DEFAULT_VIEWPORT: DeviceViewport = { width: 414, height: 896, cornerRadius: 36 };
+
+export function deviceProfile(id: string) {
+  const profile = DEVICE_PROFILES.find((p) => p.id === id);
+  if (!profile) throw new Error(`Unknown device profile: ${id}`);
+  return profile;
+}
+
+/** Screen for `profile` turned to `orientation`; `devicePixelRatio` overrides the profile's. */
+export function deviceViewport(profile: DeviceProfile, orientation: Orientation, devicePixelRatio?: number): DeviceViewport {
+  const [width, height] =
+    orientation === "portrait" ? [profile.width, profile.height] : [profile.height, profile.width];
+  return { width, height, devicePixelRatio: devicePixelRatio ?? profile.devicePixelRatio, cornerRadius: profile.cornerRadius };
+}
+
+/** Zoom that fits screens in a row into `available` px, with unscaled `gap` px between them. Never enlarges. */
+export function fitScale(viewports: Pick<DeviceViewport, "width">[], available: number, gap = 0) {
+  const total = viewports.reduce((sum, v) => sum + v.width, 0);
+  const room = available - gap * Math.max(0, viewports.length - 1);
+  if (!total || room <= 0) return 1;
+  return Math.min(1, room / total);
+}
+
+// ------- Preview frame settings -------
+export interface DeviceSettings {
+  deviceId: string;
+  orientation: Orientation;
+  /** Overrides every profile's DPR; null keeps each profile's own. */
+  devicePixelRatio: number | null;
+  /** Render `compareIds` side by side instead of the one device. */
+  sideBySide: boolean;
+  compareIds: string[];
+  /** Root font size as a multiple of the default, like the browser's text size setting. */
+  textScale: number;
+  /** Force the card's reduced-motion and high-contrast modes; off follows the system setting. */
+  reducedMotion: boolean;
+  highContrast: boolean;
+}
+
+export const DEFAULT_DEVICE_SETTINGS: DeviceSettings = {
+  deviceId: DEFAULT_DEVICE,
+  orientation: "portrait",
+  devicePixelRatio: null,
+  sideBySide: false,
+  compareIds: ["small-android", "iphone-se", "pro-max"],
+  textScale: 1,
+  reducedMotion: false,
+  highContrast: false,
+};
+
+/** Screens the preview shows for `settings`, in profile order. */
+export function previewScreens(settings: DeviceSettings) {
+  const profiles = settings.sideBySide
+    ? DEVICE_PROFILES.filter((p) => settings.compareIds.includes(p.id))
+    : [deviceProfile(settings.deviceId)];
+  return profiles.map((profile) => ({
+    profile,
+    viewport: deviceViewport(profile, settings.orientation, settings.devicePixelRatio ?? undefined),
+  }));
+}
@@ -0,0 +1,16 @@
+// Save a blob as a file through a temporary object URL
+const REVOKE_DELAY_MS = 1000;
+
+export function downloadBlob(name: string, blob: Blob) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  a.click();
+  // Safari and older Firefox start the download after click() returns; revoking now would cancel it
+  window.setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+}
+
+export function downloadJson(name: string, json: string) {
+  downloadBlob(name, new Blob([json], { type: "application/json" }));
+}
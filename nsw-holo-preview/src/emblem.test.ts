@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_EMBLEM, EMBLEMS, EmblemLoader, containRect, type EmblemState } from "./emblem";
+
+describe("containRect", () => {
+  it("fits and centres like mask-size: contain", () => {
+    expect(containRect(100, 100, 200, 400)).toEqual({ x: 0, y: 100, w: 200, h: 200 });
+    expect(containRect(400, 100, 200, 200)).toEqual({ x: 0, y: 75, w: 200, h: 50 });
+  });
+});
+
+describe("EMBLEMS", () => {
+  it("defaults to the bundled Waratah", () => {
+    expect(DEFAULT_EMBLEM).toBe(EMBLEMS.waratah);
+    expect(EMBLEMS.waratah).toMatch(/waratah.*\.svg|^data:image\/svg/);
+  });
+});
+
+describe("EmblemLoader", () => {
+  // jsdom doesn't load images; these settle on the next tick, failing for "missing" URLs
+  class FakeImage {
+    onload: (() => void) | null = null;
+    onerror: (() => void) | null = null;
+    set src(url: string) {
+      setTimeout(() => (url.includes("missing") ? this.onerror?.() : this.onload?.()));
+    }
+  }
+  const settle = () => new Promise((r) => setTimeout(r, 10));
+
+  afterEach(() => vi.unstubAllGlobals());
+
+  it("reports pending, then the image, and drops loads that were overtaken", async () => {
+    vi.stubGlobal("Image", FakeImage);
+    const states: EmblemState[] = [];
+    const loader = new EmblemLoader((emblem) => states.push(emblem));
+    loader.set("/a.svg");
+    loader.set("/b.svg");
+    await settle();
+    expect(states).toEqual(["pending", "pending", expect.any(FakeImage)]);
+
+    loader.set(null);
+    loader.dispose();
+    loader.set("/c.svg");
+    await settle();
+    expect(states).toHaveLength(4);
+    expect(states[3]).toBeNull();
+  });
+
+  it("falls back to no mask when the emblem fails, and retries the same URL", async () => {
+    vi.stubGlobal("Image", FakeImage);
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const states: EmblemState[] = [];
+    const loader = new EmblemLoader((emblem) => states.push(emblem));
+    loader.set("/missing.svg");
+    await settle();
+    expect(states).toEqual(["pending", null]);
+    expect(warn).toHaveBeenCalledWith("Hologram emblem failed to load; showing the hologram unmasked", expect.any(Error));
+
+    loader.set("/missing.svg");
+    expect(states).toEqual(["pending", null, "pending"]);
+    await settle();
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,93 @@
+// ====== Hologram emblems: vector shapes rasterised into masks ======
+// The emblem's alpha decides where the hologram shows. It is drawn from the
+// SVG at the surface's exact pixel size, so edges stay crisp at any DPR.
+import waratahUrl from "./assets/waratah.svg";
+
+/** Built-in emblems; any same-origin SVG/PNG URL works as well. */
+export const EMBLEMS = {
+  waratah: waratahUrl,
+} as const;
+
+export const DEFAULT_EMBLEM = EMBLEMS.waratah;
+
+/** Where an image sits when fitted inside a box with "contain" + centred. */
+export function containRect(imageWidth: number, imageHeight: number, boxWidth: number, boxHeight: number) {
+  const s = Math.min(boxWidth / imageWidth, boxHeight / imageHeight);
+  const w = imageWidth * s,
+    h = imageHeight * s;
+  return { x: (boxWidth - w) / 2, y: (boxHeight - h) / 2, w, h };
+}
+
+const cache = new Map<string, Promise<HTMLImageElement>>();
+
+/** Load (once per URL) the emblem image. */
+export function loadEmblem(url: string) {
+  let pending = cache.get(url);
+  if (!pending) {
+    pending = new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error("Could not load emblem: " + url));
+      img.src = url;
+    });
+    // A failed load shouldn't stick; the next surface retries
+    pending.catch(() => cache.delete(url));
+    cache.set(url, pending);
+  }
+  return pending;
+}
+
+/** Draw the emblem fitted into a `width`×`height` 2D context (device pixels). */
+export function drawEmblem(ctx: CanvasRenderingContext2D, img: HTMLImageElement, width: number, height: number) {
+  // SVGs without intrinsic size report 0; fall back to the canvas aspect
+  const iw = img.naturalWidth || width,
+    ih = img.naturalHeight || height;
+  const r = containRect(iw, ih, width, height);
+  ctx.drawImage(img, r.x, r.y, r.w, r.h);
+}
+
+/** Emblem rasterised onto a fresh canvas, ready for `texImage2D` or compositing. */
+export function rasterizeEmblem(img: HTMLImageElement, width: number, height: number) {
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, width);
+  canvas.height = Math.max(1, height);
+  drawEmblem(canvas.getContext("2d")!, img, canvas.width, canvas.height);
+  return canvas;
+}
+
+/** What a surface should mask with: the loaded emblem, nothing yet (draw blank), or no mask. */
+export type EmblemState = HTMLImageElement | "pending" | null;
+
+/**
+ * A surface's current emblem. `set` reports "pending" (or null) straight away
+ * and the image once it loads; loads overtaken by a later `set` or `dispose`
+ * are dropped. A failed load warns and falls back to no mask, and setting the
+ * same URL again retries it.
+ */
+export class EmblemLoader {
+  private url: string | null = null;
+  private disposed = false;
+
+  constructor(private readonly onChange: (emblem: EmblemState) => void) {}
+
+  set(url: string | null) {
+    if (url === this.url || this.disposed) return;
+    this.url = url;
+    this.onChange(url ? "pending" : null);
+    if (!url) return;
+    loadEmblem(url)
+      .then((img) => {
+        if (!this.disposed && this.url === url) this.onChange(img);
+      })
+      .catch((err) => {
+        console.warn("Hologram emblem failed to load; showing the hologram unmasked", err);
+        if (this.disposed || this.url !== url) return;
+        this.url = null;
+        this.onChange(null);
+      });
+  }
+
+  dispose() {
+    this.disposed = true;
+  }
+}
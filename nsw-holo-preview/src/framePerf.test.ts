@@ -0,0 +1,43 @@
+import { describe, expect, it, vi } from "vitest";
+import { FramePerf } from "./framePerf";
+
+/** `count` frames `gapMs` apart starting at `from`; returns the last timestamp. */
+function feed(perf: FramePerf, count: number, gapMs: number, from = 0) {
+  let at = from;
+  for (let i = 0; i < count; i++) perf.record(1, (at += gapMs));
+  return at;
+}
+
+describe("FramePerf", () => {
+  it("reports fps and frame time over the last second, ignoring idle gaps", () => {
+    const perf = new FramePerf({ adaptive: false });
+    let at = feed(perf, 30, 20);
+    at = feed(perf, 10, 20, at + 5000);
+    const stats = perf.stats(at);
+    expect(stats.fps).toBe(10);
+    expect(stats.frameMs).toBeCloseTo(20);
+    expect(stats.drawMs).toBe(1);
+  });
+
+  it("steps the scale down while frames are slow and back up once they are fast", () => {
+    const onScaleChange = vi.fn();
+    const perf = new FramePerf({ window: 10, fastWindows: 2 });
+    perf.onScaleChange = onScaleChange;
+
+    let at = feed(perf, 11, 40);
+    expect(perf.scale).toBe(0.85);
+    at = feed(perf, 100, 40, at);
+    expect(perf.scale).toBe(0.5);
+
+    at = feed(perf, 20, 16, at);
+    expect(perf.scale).toBe(0.6);
+    expect(onScaleChange).toHaveBeenLastCalledWith(0.6);
+  });
+
+  it("returns to full resolution when adaptation is switched off", () => {
+    const perf = new FramePerf({ window: 10 });
+    feed(perf, 11, 40);
+    perf.setAdaptive(false);
+    expect(perf.scale).toBe(1);
+  });
+});
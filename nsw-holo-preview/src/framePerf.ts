@@ -0,0 +1,116 @@
+// ====== Hologram frame stats and adaptive resolution (pure) ======
+// Surfaces report every draw; the card reads FPS and frame times for the dev
+// overlay, and the resolution scale steps down while frames run slow and
+// back up once they have been fast for a while.
+
+export interface FrameStats {
+  /** Frames drawn in the last second. */
+  fps: number;
+  /** Mean time between consecutive frames while animating, in ms; 0 when idle. */
+  frameMs: number;
+  /** Mean CPU time of a draw call, in ms. */
+  drawMs: number;
+  /** Current resolution scale (fraction of the capped DPR). */
+  scale: number;
+}
+
+export interface FramePerfOptions {
+  /** Frames slower than this on average (ms) step the scale down. */
+  slowMs?: number;
+  /** Frames faster than this on average (ms) count towards stepping back up. */
+  fastMs?: number;
+  minScale?: number;
+  /** Frames per evaluation window. */
+  window?: number;
+  /** Fast windows in a row before the scale steps up. */
+  fastWindows?: number;
+  /** Off keeps the scale at 1 and only collects stats. */
+  adaptive?: boolean;
+}
+
+const DEFAULTS: Required<FramePerfOptions> = {
+  slowMs: 1000 / 45,
+  fastMs: 1000 / 55,
+  minScale: 0.5,
+  window: 30,
+  fastWindows: 4,
+  adaptive: true,
+};
+
+// Gaps longer than this are the card sitting still, not slow frames
+const IDLE_GAP_MS = 250;
+const HISTORY = 120;
+
+export class FramePerf {
+  /** Which surface is drawing, for the overlay ("worker", "webgl2", "canvas2d", …). */
+  renderer = "none";
+  /** Called when the adaptive scale changes; the hologram layer applies it to the surface. */
+  onScaleChange: ((scale: number) => void) | null = null;
+  private readonly options: Required<FramePerfOptions>;
+  private frames: { at: number; drawMs: number }[] = [];
+  private windowGaps: number[] = [];
+  private fastStreak = 0;
+  private currentScale = 1;
+
+  constructor(options: FramePerfOptions = {}) {
+    this.options = { ...DEFAULTS, ...options };
+  }
+
+  /** Switching adaptation off returns to full resolution. */
+  setAdaptive(adaptive: boolean) {
+    this.options.adaptive = adaptive;
+    if (!adaptive) this.setScale(1);
+  }
+
+  get scale() {
+    return this.currentScale;
+  }
+
+  /** One drawn frame; `at` defaults to now. Bound so it can be passed as a callback. */
+  record = (drawMs: number, at = performance.now()) => {
+    const last = this.frames[this.frames.length - 1];
+    this.frames.push({ at, drawMs });
+    if (this.frames.length > HISTORY) this.frames.shift();
+    if (!last || at - last.at > IDLE_GAP_MS) return;
+    this.windowGaps.push(at - last.at);
+    if (this.windowGaps.length >= this.options.window) this.evaluate();
+  };
+
+  stats(now = performance.now()): FrameStats {
+    const recent = this.frames.filter((f) => now - f.at <= 1000);
+    const gaps: number[] = [];
+    for (let i = 1; i < recent.length; i++) {
+      const gap = recent[i].at - recent[i - 1].at;
+      if (gap <= IDLE_GAP_MS) gaps.push(gap);
+    }
+    return {
+      fps: recent.length,
+      frameMs: mean(gaps),
+      drawMs: mean(recent.map((f) => f.drawMs)),
+      scale: this.currentScale,
+    };
+  }
+
+  private evaluate() {
+    const avg = mean(this.windowGaps);
+    this.windowGaps = [];
+    if (!this.options.adaptive) return;
+    const { slowMs, fastMs, minScale, fastWindows } = this.options;
+    if (avg > slowMs) {
+      this.fastStreak = 0;
+      this.setScale(Math.max(minScale, round2(this.currentScale * 0.85)));
+    } else if (avg < fastMs && this.currentScale < 1 && ++this.fastStreak >= fastWindows) {
+      this.fastStreak = 0;
+      this.setScale(Math.min(1, round2(this.currentScale + 0.1)));
+    }
+  }
+
+  private setScale(scale: number) {
+    if (scale === this.currentScale) return;
+    this.currentScale = scale;
+    this.onScaleChange?.(scale);
+  }
+}
+
+const mean = (values: number[]) => (values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+const round2 = (n: number) => Math.round(n * 100) / 100;
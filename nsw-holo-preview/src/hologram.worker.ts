@@ -0,0 +1,6 @@
+// Worker entry: draws the hologram off the main thread (see WorkerHologramSurface)
+import { createHologramHost, type ToWorker } from "./hologramHost";
+
+const host = createHologramHost((message, transfer = []) => postMessage(message, { transfer }));
+
+addEventListener("message", (ev) => host.handle((ev as MessageEvent<ToWorker>).data));
@@ -0,0 +1,116 @@
+// ====== Hologram worker host: runs HologramRenderer on an OffscreenCanvas ======
+// Everything the main thread would call on the renderer arrives as a message.
+// Kept apart from the worker entry (hologram.worker.ts) so tests can drive it
+// in-process.
+import { HologramRenderer, ShaderError } from "./HologramRenderer";
+import type { HologramParams } from "./hologramPresets";
+
+export type ToWorker =
+  | {
+      type: "init";
+      canvas: OffscreenCanvas;
+      width: number;
+      height: number;
+      devicePixelRatio: number;
+      maxDpr: number;
+      params: HologramParams;
+      /** An emblem is on its way; draw nothing until its mask arrives. */
+      masked: boolean;
+    }
+  | { type: "tilt"; x: number; y: number }
+  | { type: "resize"; width: number; height: number; devicePixelRatio: number }
+  | { type: "params"; params: HologramParams }
+  /** Emblem rasterised on the main thread at the drawing-buffer size. */
+  | { type: "mask"; mask: ImageBitmap | "pending" | null }
+  | { type: "scale"; scale: number }
+  | { type: "snapshot"; id: number }
+  | { type: "dispose" };
+
+export type FromWorker =
+  | { type: "ready"; contextType: "webgl2" | "webgl" }
+  | { type: "failed"; reason: "no-webgl" | "shader"; message: string }
+  | { type: "frame"; drawMs: number }
+  | { type: "context"; state: "lost" | "restored" }
+  | { type: "snapshot"; id: number; image: ImageBitmap | null };
+
+export function createHologramHost(post: (message: FromWorker, transfer?: Transferable[]) => void) {
+  let renderer: HologramRenderer<OffscreenCanvas> | null = null;
+  let bitmap: ImageBitmap | null = null;
+
+  const init = (msg: Extract<ToWorker, { type: "init" }>) => {
+    try {
+      renderer = HologramRenderer.create(msg.canvas, {
+        maxDpr: msg.maxDpr,
+        devicePixelRatio: msg.devicePixelRatio,
+        params: msg.params,
+        onFrame: (drawMs) => post({ type: "frame", drawMs }),
+        onContextChange: (state) => post({ type: "context", state }),
+      });
+    } catch (err) {
+      const message = err instanceof ShaderError ? err.infoLog : String(err);
+      post({ type: "failed", reason: "shader", message });
+      return;
+    }
+    if (!renderer) {
+      post({ type: "failed", reason: "no-webgl", message: "WebGL is not available on OffscreenCanvas" });
+      return;
+    }
+    renderer.setMask(msg.masked ? "pending" : null);
+    renderer.resize(msg.width, msg.height, msg.devicePixelRatio);
+    post({ type: "ready", contextType: renderer.contextType });
+  };
+
+  return {
+    handle(msg: ToWorker) {
+      if (msg.type === "init") return init(msg);
+      if (!renderer) return;
+      switch (msg.type) {
+        case "tilt":
+          renderer.setTilt(msg.x, msg.y);
+          break;
+        case "resize":
+          renderer.resize(msg.width, msg.height, msg.devicePixelRatio);
+          break;
+        case "params":
+          renderer.setParams(msg.params);
+          break;
+        case "mask": {
+          bitmap?.close();
+          bitmap = null;
+          const mask = msg.mask;
+          if (mask === "pending") {
+            renderer.setMask("pending");
+          } else if (!mask) {
+            renderer.setMask(null);
+          } else {
+            bitmap = mask;
+            renderer.setMask(() => mask);
+          }
+          break;
+        }
+        case "scale":
+          renderer.setResolutionScale(msg.scale);
+          break;
+        case "snapshot": {
+          // Redraw and copy in the same task: the WebGL buffer is only readable until it is presented
+          renderer.render();
+          const id = msg.id;
+          if (typeof createImageBitmap === "undefined") {
+            post({ type: "snapshot", id, image: null });
+            break;
+          }
+          createImageBitmap(renderer.canvas)
+            .then((image) => post({ type: "snapshot", id, image }, [image]))
+            .catch(() => post({ type: "snapshot", id, image: null }));
+          break;
+        }
+        case "dispose":
+          renderer.dispose();
+          renderer = null;
+          bitmap?.close();
+          bitmap = null;
+          break;
+      }
+    },
+  };
+}
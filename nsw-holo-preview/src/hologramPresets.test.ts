@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import {
+  BLOB_COUNT,
+  HOLOGRAM_PRESETS,
+  HologramPresetError,
+  packBlobs,
+  packTint,
+  parseHologramPreset,
+  serializePreset,
+} from "./hologramPresets";
+
+describe("hologram presets", () => {
+  it("all fit the shader's blob slots and slider ranges", () => {
+    for (const preset of Object.values(HOLOGRAM_PRESETS)) {
+      expect(preset.params.blobs).toHaveLength(BLOB_COUNT);
+      expect(parseHologramPreset(serializePreset(preset))).toEqual(preset);
+    }
+  });
+
+  it("packs blobs as x, y, r, k per slot", () => {
+    const packed = packBlobs(HOLOGRAM_PRESETS.classic.params.blobs);
+    expect(packed).toHaveLength(BLOB_COUNT * 4);
+    expect(Array.from(packed.slice(4, 8)).map((v) => +v.toFixed(2))).toEqual([0.66, 0.28, 0.21, 0.19]);
+  });
+
+  it("packs a tint as rgb and amount, or zeros for none", () => {
+    expect(Array.from(packTint({ color: "#ff8000", amount: 0.5 })).map((v) => +v.toFixed(2))).toEqual([1, 0.5, 0, 0.5]);
+    expect(Array.from(packTint(undefined))).toEqual([0, 0, 0, 0]);
+  });
+});
+
+describe("parseHologramPreset", () => {
+  const valid = JSON.parse(serializePreset(HOLOGRAM_PRESETS.classic));
+
+  it("rejects out-of-range and malformed values", () => {
+    expect(() => parseHologramPreset("{")).toThrow(HologramPresetError);
+    expect(() => parseHologramPreset(JSON.stringify({ ...valid, version: 2 }))).toThrow(/version/);
+    expect(() =>
+      parseHologramPreset(JSON.stringify({ ...valid, params: { ...valid.params, opacity: 1.5 } }))
+    ).toThrow(/opacity must be a number from 0 to 1/);
+    expect(() =>
+      parseHologramPreset(JSON.stringify({ ...valid, params: { ...valid.params, blobs: valid.params.blobs.slice(1) } }))
+    ).toThrow(/6 entries/);
+  });
+
+  it("keeps a valid tint and rejects a malformed one", () => {
+    const tint = { color: "#16a34a", amount: 0.4 };
+    expect(parseHologramPreset(JSON.stringify({ ...valid, params: { ...valid.params, tint } })).params.tint).toEqual(tint);
+    expect(() =>
+      parseHologramPreset(JSON.stringify({ ...valid, params: { ...valid.params, tint: { color: "green", amount: 0.4 } } }))
+    ).toThrow(/tint must be/);
+  });
+
+  it("names unnamed imports", () => {
+    expect(parseHologramPreset(JSON.stringify({ ...valid, name: " " })).name).toBe("Imported");
+  });
+});
@@ -0,0 +1,161 @@
+// ====== Hologram look: tunable shader parameters and named presets (pure) ======
+// Everything a designer might want to vary lives here as data, so trying a
+// variation is a slider move or a JSON file rather than a GLSL edit.
+
+/** One metaball in the foil field, in card UV (0..1). */
+export interface HologramBlob {
+  x: number;
+  y: number;
+  /** Radius in UV units. */
+  r: number;
+  /** How far the blob slides with tilt (parallax). */
+  k: number;
+}
+
+/** The shader has a fixed number of blob slots. */
+export const BLOB_COUNT = 6;
+
+export interface HologramParams {
+  blobs: HologramBlob[];
+  /** Hue cycles per unit of field strength. */
+  hueScale: number;
+  saturation: number;
+  /** Angular ripples around the centre. */
+  ripples: number;
+  /** Overall opacity of the hologram layer. */
+  opacity: number;
+  /** Colour wash over the foil, e.g. the credential type's accent. */
+  tint?: HologramTint;
+}
+
+export interface HologramTint {
+  /** `#rrggbb`. */
+  color: string;
+  /** 0 leaves the foil as is, 1 takes the tint's hue and saturation fully. */
+  amount: number;
+}
+
+export interface HologramPreset {
+  name: string;
+  params: HologramParams;
+}
+
+export class HologramPresetError extends Error {
+  constructor(message: string) {
+    super("Invalid hologram preset: " + message);
+    this.name = "HologramPresetError";
+  }
+}
+
+const CLASSIC_BLOBS: HologramBlob[] = [
+  { x: 0.23, y: 0.31, r: 0.26, k: 0.23 },
+  { x: 0.66, y: 0.28, r: 0.21, k: 0.19 },
+  { x: 0.82, y: 0.64, r: 0.19, k: 0.21 },
+  { x: 0.37, y: 0.74, r: 0.17, k: 0.17 },
+  { x: 0.12, y: 0.58, r: 0.16, k: 0.2 },
+  { x: 0.55, y: 0.47, r: 0.15, k: 0.16 },
+];
+
+const scaleRadii = (blobs: HologramBlob[], s: number) => blobs.map((b) => ({ ...b, r: +(b.r * s).toFixed(3) }));
+
+export const HOLOGRAM_PRESETS = {
+  classic: {
+    name: "Classic",
+    params: { blobs: CLASSIC_BLOBS, hueScale: 0.34, saturation: 0.95, ripples: 36, opacity: 0.6 },
+  },
+  subtle: {
+    name: "Subtle",
+    params: { blobs: scaleRadii(CLASSIC_BLOBS, 0.8), hueScale: 0.2, saturation: 0.55, ripples: 18, opacity: 0.35 },
+  },
+  "high-contrast": {
+    name: "High contrast",
+    params: { blobs: scaleRadii(CLASSIC_BLOBS, 1.15), hueScale: 0.5, saturation: 1, ripples: 48, opacity: 0.85 },
+  },
+} satisfies Record<string, HologramPreset>;
+
+export type HologramPresetId = keyof typeof HOLOGRAM_PRESETS;
+
+export const DEFAULT_HOLOGRAM: HologramParams = HOLOGRAM_PRESETS.classic.params;
+
+/** Slider bounds; also what imported presets are validated against. */
+export const PARAM_RANGES = {
+  hueScale: { min: 0.05, max: 1, step: 0.01 },
+  saturation: { min: 0, max: 1, step: 0.01 },
+  ripples: { min: 0, max: 72, step: 1 },
+  opacity: { min: 0, max: 1, step: 0.01 },
+} as const;
+
+/** Blob data packed for `uniform4fv(u_blobs)`: x, y, r, k per slot. */
+export function packBlobs(blobs: HologramBlob[]) {
+  const out = new Float32Array(BLOB_COUNT * 4);
+  blobs.slice(0, BLOB_COUNT).forEach((b, i) => out.set([b.x, b.y, b.r, b.k], i * 4));
+  return out;
+}
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+/** Tint packed for `uniform4fv(u_tint)`: r, g, b (0..1) and amount; all zero for none. */
+export function packTint(tint: HologramTint | undefined) {
+  const out = new Float32Array(4);
+  if (!tint) return out;
+  const n = parseInt(tint.color.slice(1), 16);
+  out.set([(n >> 16) / 255, ((n >> 8) & 0xff) / 255, (n & 0xff) / 255, tint.amount]);
+  return out;
+}
+
+export function serializePreset(preset: HologramPreset) {
+  return JSON.stringify({ version: 1, ...preset }, null, 2);
+}
+
+const isNum = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+
+function parseBlob(value: unknown, index: number): HologramBlob {
+  const b = (value ?? {}) as Record<string, unknown>;
+  if (!isNum(b.x) || !isNum(b.y) || !isNum(b.r) || !isNum(b.k) || b.r <= 0) {
+    throw new HologramPresetError(`blob ${index} is malformed`);
+  }
+  return { x: b.x, y: b.y, r: b.r, k: b.k };
+}
+
+export function parseHologramPreset(json: string): HologramPreset {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new HologramPresetError("not JSON");
+  }
+  const raw = (parsed ?? {}) as Record<string, unknown>;
+  if (raw.version !== 1) throw new HologramPresetError("unsupported version");
+  if (!raw.params || typeof raw.params !== "object") throw new HologramPresetError("params missing");
+  const p = raw.params as Record<string, unknown>;
+
+  const scalar = (key: keyof typeof PARAM_RANGES) => {
+    const { min, max } = PARAM_RANGES[key];
+    const v = p[key];
+    if (!isNum(v) || v < min || v > max) throw new HologramPresetError(`${key} must be a number from ${min} to ${max}`);
+    return v;
+  };
+  const params = {
+    hueScale: scalar("hueScale"),
+    saturation: scalar("saturation"),
+    ripples: scalar("ripples"),
+    opacity: scalar("opacity"),
+  };
+  if (!Array.isArray(p.blobs) || p.blobs.length !== BLOB_COUNT) {
+    throw new HologramPresetError(`blobs must list ${BLOB_COUNT} entries`);
+  }
+
+  let tint: HologramTint | undefined;
+  if (p.tint !== undefined) {
+    const t = (p.tint ?? {}) as Record<string, unknown>;
+    if (typeof t.color !== "string" || !HEX_COLOR.test(t.color) || !isNum(t.amount) || t.amount < 0 || t.amount > 1) {
+      throw new HologramPresetError("tint must be a #rrggbb color with an amount from 0 to 1");
+    }
+    tint = { color: t.color, amount: t.amount };
+  }
+
+  return {
+    name: typeof raw.name === "string" && raw.name.trim() ? raw.name.trim() : "Imported",
+    params: { blobs: p.blobs.map(parseBlob), ...params, ...(tint && { tint }) },
+  };
+}
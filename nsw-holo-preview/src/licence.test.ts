@@ -0,0 +1,161 @@
+import { describe, expect, it } from "vitest";
+import {
+  LicenceValidationError,
+  SAMPLE_LICENCES,
+  ageClaims,
+  credentialTypeOf,
+  formatAgo,
+  formatClock,
+  formatDaysLeft,
+  licenceClaims,
+  licenceStatus,
+  nextSydneyMidnight,
+  sydneyDate,
+  formatConditions,
+  nameSizeClass,
+  parseLicence,
+  parseLicenceDate,
+} from "./licence";
+
+const base = {
+  givenNames: "Jane",
+  familyName: "CITIZEN",
+  licenceNumber: "1111 2222",
+  expiry: "13 Jul 2030",
+  dateOfBirth: "2000-02-29",
+  classes: ["C"],
+  address: "1 Test St, SYDNEY NSW 2000",
+};
+
+describe("parseLicenceDate", () => {
+  it("accepts ISO and display forms", () => {
+    expect(parseLicenceDate("13 Jul 2021")?.toISOString().slice(0, 10)).toBe("2021-07-13");
+    expect(parseLicenceDate("2021-07-13")?.toISOString().slice(0, 10)).toBe("2021-07-13");
+  });
+
+  it("rejects impossible dates", () => {
+    expect(parseLicenceDate("2021-02-31")).toBeNull();
+    expect(parseLicenceDate("31 Foo 2021")).toBeNull();
+  });
+});
+
+describe("parseLicence", () => {
+  it("normalises dates and defaults conditions", () => {
+    const licence = parseLicence(base);
+    expect(licence.expiry).toBe("2030-07-13");
+    expect(licence.conditions).toEqual([]);
+    expect(formatConditions(licence.conditions)).toBe("None");
+  });
+
+  it("lists every problem at once", () => {
+    try {
+      parseLicence({ ...base, familyName: " ", expiry: "soon", classes: [] });
+      expect.unreachable();
+    } catch (err) {
+      expect(err).toBeInstanceOf(LicenceValidationError);
+      expect((err as LicenceValidationError).issues).toHaveLength(3);
+    }
+  });
+});
+
+describe("display helpers", () => {
+  it("shrinks long names", () => {
+    expect(nameSizeClass(SAMPLE_LICENCES.trevor)).toBe("text-2xl");
+    expect(nameSizeClass(SAMPLE_LICENCES.longName)).toBe("text-lg");
+  });
+
+  it("only discloses the age threshold result", () => {
+    const claims = ageClaims(parseLicence(base), 18, new Date("2018-02-28T01:00:00Z"));
+    expect(claims).toEqual({ typ: "nsw.age", over: 18, result: false, st: "current" });
+    expect(ageClaims(parseLicence(base), 18, new Date("2018-03-01T01:00:00Z")).result).toBe(true);
+  });
+
+  it("turns a birthday over at Sydney midnight, whatever the device timezone", () => {
+    // 1 Mar 2018 00:00 AEDT is 28 Feb 13:00 UTC (born 29 Feb, so 18 from 1 Mar)
+    expect(ageClaims(parseLicence(base), 18, new Date("2018-02-28T12:59:00Z")).result).toBe(false);
+    expect(ageClaims(parseLicence(base), 18, new Date("2018-02-28T13:01:00Z")).result).toBe(true);
+  });
+});
+
+describe("licenceStatus", () => {
+  const licence = parseLicence({ ...base, expiry: "2030-07-13" });
+
+  it("uses the Sydney calendar date, not the device's", () => {
+    // 14:30 UTC on 12 Jul is already 13 Jul (00:30 AEST) in Sydney
+    expect(sydneyDate(new Date("2030-07-12T14:30:00Z")).toISOString().slice(0, 10)).toBe("2030-07-13");
+    expect(licenceStatus(licence, new Date("2030-07-12T14:30:00Z"))).toEqual({ status: "expiring", daysLeft: 0 });
+    // Valid through the whole expiry day in Sydney, expired from the next midnight
+    expect(licenceStatus(licence, new Date("2030-07-13T13:59:00Z")).status).toBe("expiring");
+    expect(licenceStatus(licence, new Date("2030-07-13T14:00:00Z"))).toEqual({ status: "expired", daysLeft: -1 });
+  });
+
+  it("reads a Sydney date as that whole day", () => {
+    // The card passes today as `sydneyDate` returns it (UTC midnight), whatever the device's timezone
+    expect(licenceStatus(licence, new Date(Date.UTC(2030, 6, 13)))).toEqual({ status: "expiring", daysLeft: 0 });
+    expect(licenceStatus(licence, new Date(Date.UTC(2030, 6, 14)))).toEqual({ status: "expired", daysLeft: -1 });
+    expect(ageClaims(parseLicence(base), 18, new Date(Date.UTC(2018, 1, 28))).result).toBe(false);
+    expect(ageClaims(parseLicence(base), 18, new Date(Date.UTC(2018, 2, 1))).result).toBe(true);
+  });
+
+  it("finds the next Sydney midnight in and out of daylight saving", () => {
+    expect(nextSydneyMidnight(new Date("2030-07-13T09:00:00Z")).toISOString()).toBe("2030-07-13T14:00:00.000Z");
+    expect(nextSydneyMidnight(new Date("2030-07-13T14:00:00Z")).toISOString()).toBe("2030-07-14T14:00:00.000Z");
+    expect(nextSydneyMidnight(new Date("2030-01-10T20:00:00Z")).toISOString()).toBe("2030-01-11T13:00:00.000Z");
+    // Daylight saving starts at 2am on 6 Oct 2030; that day's midnight is still AEST
+    expect(nextSydneyMidnight(new Date("2030-10-05T12:00:00Z")).toISOString()).toBe("2030-10-05T14:00:00.000Z");
+    expect(nextSydneyMidnight(new Date("2030-10-05T14:00:00Z")).toISOString()).toBe("2030-10-06T13:00:00.000Z");
+  });
+
+  it("flags the last 30 days as expiring", () => {
+    expect(licenceStatus(licence, new Date("2030-06-12T02:00:00Z"))).toEqual({ status: "current", daysLeft: 31 });
+    expect(licenceStatus(licence, new Date("2030-06-13T02:00:00Z"))).toEqual({ status: "expiring", daysLeft: 30 });
+  });
+
+  it("lets recorded suspensions and cancellations override the dates", () => {
+    const now = new Date("2020-01-01T00:00:00Z");
+    expect(licenceStatus(parseLicence({ ...base, status: "suspended" }), now).status).toBe("suspended");
+    expect(licenceStatus(parseLicence({ ...base, expiry: "2019-01-01", status: "cancelled" }), now).status).toBe("cancelled");
+    expect(() => parseLicence({ ...base, status: "revoked" })).toThrow(/status must be one of/);
+  });
+
+  it("carries the status in the QR claims", () => {
+    expect(licenceClaims(SAMPLE_LICENCES.suspended).st).toBe("suspended");
+    expect(licenceClaims(licence, new Date("2031-01-01T00:00:00Z")).st).toBe("expired");
+    expect(ageClaims(SAMPLE_LICENCES.cancelled, 18).st).toBe("cancelled");
+  });
+
+  it("formats the live clock and the time since a refresh", () => {
+    expect(formatClock(new Date(2024, 0, 1, 18, 4, 9))).toBe("06:04:09pm");
+    expect([30_000, 5 * 60_000, 3 * 3_600_000, 26 * 3_600_000, 72 * 3_600_000].map(formatAgo)).toEqual([
+      "just now",
+      "5 min ago",
+      "3 h ago",
+      "1 day ago",
+      "3 days ago",
+    ]);
+  });
+
+  it("words the countdown", () => {
+    expect([0, 1, 12].map(formatDaysLeft)).toEqual(["Expires today", "Expires tomorrow", "Expires in 12 days"]);
+  });
+});
+
+describe("credentialTypeOf", () => {
+  it("infers the type from the classes", () => {
+    expect(credentialTypeOf(parseLicence(base))).toBe("full");
+    expect(credentialTypeOf(parseLicence({ ...base, classes: ["R"] }))).toBe("motorcycle");
+    expect(credentialTypeOf(SAMPLE_LICENCES.multiClass)).toBe("heavy");
+  });
+
+  it("prefers the recorded type, which the classes can't show for L and P", () => {
+    expect(credentialTypeOf(parseLicence({ ...base, credentialType: "p2" }))).toBe("p2");
+    expect(() => parseLicence({ ...base, credentialType: "P3" })).toThrow(/credentialType must be one of/);
+  });
+
+  it("allows no classes only on a Photo Card", () => {
+    const { classes: _classes, ...photoCard } = base;
+    expect(parseLicence({ ...photoCard, credentialType: "photoCard" }).classes).toEqual([]);
+    expect(() => parseLicence({ ...base, credentialType: "photoCard" })).toThrow(/a photoCard has no classes/);
+    expect(() => parseLicence({ ...base, classes: [] })).toThrow(/classes must be a non-empty list/);
+  });
+});
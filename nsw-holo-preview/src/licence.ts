@@ -0,0 +1,565 @@
+// ====== Licence record model (pure, no React) ======
+import samplePortraitUrl from "./assets/sample-portrait.svg";
+
+/** Fields that can be blurred until the holder chooses to reveal them. */
+export type SensitiveField = "licenceNumber" | "address" | "dateOfBirth" | "expiry";
+export const SENSITIVE_FIELDS: SensitiveField[] = ["licenceNumber", "address", "dateOfBirth", "expiry"];
+export const DEFAULT_SENSITIVE_FIELDS: SensitiveField[] = ["licenceNumber", "address"];
+
+/** When the holder first obtained a class. */
+export interface ClassHistoryEntry {
+  cls: string;
+  since: string;
+}
+
+/** A single licence holder, as rendered by `DigitalLicence`. Dates are ISO `YYYY-MM-DD`. */
+export interface LicenceData {
+  givenNames: string;
+  familyName: string;
+  licenceNumber: string;
+  expiry: string;
+  dateOfBirth: string;
+  /** One or more licence classes, e.g. ["C"] or ["C", "R"]; empty for a Photo Card. */
+  classes: string[];
+  /** Condition codes; an empty list renders as "None". */
+  conditions: string[];
+  address: string;
+  portraitUrl?: string;
+  /** ISO date-time of the last credential refresh. */
+  refreshedAt?: string;
+  /** Fields blurred until revealed; defaults to `DEFAULT_SENSITIVE_FIELDS`. */
+  sensitiveFields?: SensitiveField[];
+  /** Back-of-card details. */
+  cardNumber?: string;
+  issueDate?: string;
+  classHistory?: ClassHistoryEntry[];
+  /** Issuer-recorded state; omitted means current. Expiry is derived from `expiry`. */
+  status?: RecordedStatus;
+  /** Which NSW credential this is; inferred from `classes` when omitted (see `credentialTypeOf`). */
+  credentialType?: CredentialType;
+}
+
+/** NSW credentials with their own card design. Licence stages (L, P1, P2) aren't visible in the class codes. */
+export type CredentialType = "learner" | "p1" | "p2" | "full" | "motorcycle" | "heavy" | "photoCard" | "boat" | "rsa";
+export const CREDENTIAL_TYPES: CredentialType[] = ["learner", "p1", "p2", "full", "motorcycle", "heavy", "photoCard", "boat", "rsa"];
+
+/** Credentials that are ID or a competency, with no licence classes. */
+const CLASSLESS_TYPES: CredentialType[] = ["photoCard", "rsa"];
+
+const HEAVY_CLASSES = ["LR", "MR", "HR", "HC", "MC"];
+const RIDER_CLASSES = ["R", "RE"];
+
+/**
+ * The credential's type: explicit when the record says so, otherwise from the
+ * classes — none is a Photo Card, any heavy class makes it heavy, riders-only is motorcycle.
+ */
+export function credentialTypeOf(licence: Pick<LicenceData, "classes" | "credentialType">): CredentialType {
+  if (licence.credentialType) return licence.credentialType;
+  const classes = licence.classes.map((c) => c.toUpperCase());
+  if (!classes.length) return "photoCard";
+  if (classes.some((c) => HEAVY_CLASSES.includes(c))) return "heavy";
+  if (classes.every((c) => RIDER_CLASSES.includes(c))) return "motorcycle";
+  return "full";
+}
+
+/** States the issuer records explicitly. */
+export type RecordedStatus = "current" | "suspended" | "cancelled";
+export const RECORDED_STATUSES: RecordedStatus[] = ["current", "suspended", "cancelled"];
+
+/** What the card shows and the QR carries, combining the recorded state with the expiry date. */
+export type LicenceStatus = "current" | "expiring" | "expired" | "suspended" | "cancelled";
+
+/** Plain-language meaning of condition codes shown on the back of the card (demo set). */
+export const CONDITION_CODES: Record<string, string> = {
+  A: "Must wear corrective lenses while driving",
+  B: "Must wear a hearing aid while driving",
+  E: "Automatic transmission vehicles only",
+  I: "Alcohol interlock device required",
+  S: "Subject to periodic medical review",
+  V: "Vehicle must be modified to suit the driver",
+  X: "Other condition — see the conditions notice",
+};
+
+export function describeCondition(code: string) {
+  return CONDITION_CODES[code.toUpperCase()] ?? "Unknown condition code";
+}
+
+export class LicenceValidationError extends Error {
+  constructor(public readonly issues: string[]) {
+    super("Invalid licence data: " + issues.join("; "));
+    this.name = "LicenceValidationError";
+  }
+}
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+/**
+ * Parse a calendar date. Accepts ISO `2021-07-13` or display form `13 Jul 2021`.
+ * Returns a UTC-midnight Date, or null when the input is not a real date.
+ */
+export function parseLicenceDate(value: string): Date | null {
+  const s = value.trim();
+  let y: number, m: number, d: number;
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(s);
+  const display = /^(\d{1,2})\s+([A-Za-z]{3})[a-z]*\s+(\d{4})$/.exec(s);
+  if (iso) {
+    y = +iso[1];
+    m = +iso[2] - 1;
+    d = +iso[3];
+  } else if (display) {
+    d = +display[1];
+    m = MONTHS.findIndex((name) => name.toLowerCase() === display[2].toLowerCase());
+    y = +display[3];
+    if (m < 0) return null;
+  } else {
+    return null;
+  }
+  const date = new Date(Date.UTC(y, m, d));
+  // Reject roll-over such as 31 Feb
+  if (date.getUTCFullYear() !== y || date.getUTCMonth() !== m || date.getUTCDate() !== d) return null;
+  return date;
+}
+
+/** `13 Jul 2021` */
+export function formatLicenceDate(date: Date) {
+  return `${date.getUTCDate()} ${MONTHS[date.getUTCMonth()]} ${date.getUTCFullYear()}`;
+}
+
+/** `14 Dec` — the card only shows day and month of birth. */
+export function formatDayMonth(date: Date) {
+  return `${date.getUTCDate()} ${MONTHS[date.getUTCMonth()]}`;
+}
+
+/** Local-time refresh stamp split the way the card lays it out: `19 Jun 2019` / `06:34am`. */
+export function formatRefreshed(date: Date) {
+  const h = date.getHours();
+  const hh = String(h % 12 === 0 ? 12 : h % 12).padStart(2, "0");
+  const mm = String(date.getMinutes()).padStart(2, "0");
+  return {
+    day: `${date.getDate()} ${MONTHS[date.getMonth()]} ${date.getFullYear()}`,
+    time: `${hh}:${mm}${h < 12 ? "am" : "pm"}`,
+  };
+}
+
+/** Local-time ticking clock: `06:34:09pm`. Seconds make a screenshot visibly stale. */
+export function formatClock(date: Date) {
+  const h = date.getHours();
+  const hh = String(h % 12 === 0 ? 12 : h % 12).padStart(2, "0");
+  const mm = String(date.getMinutes()).padStart(2, "0");
+  const ss = String(date.getSeconds()).padStart(2, "0");
+  return `${hh}:${mm}:${ss}${h < 12 ? "am" : "pm"}`;
+}
+
+/** "just now", "5 min ago", "3 h ago", "2 days ago". */
+export function formatAgo(ms: number) {
+  const minutes = Math.floor(Math.max(0, ms) / 60000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  const days = Math.floor(hours / 24);
+  return days === 1 ? "1 day ago" : `${days} days ago`;
+}
+
+/** "Expires today", "Expires tomorrow", "Expires in 12 days". */
+export function formatDaysLeft(days: number) {
+  if (days === 0) return "Expires today";
+  if (days === 1) return "Expires tomorrow";
+  return `Expires in ${days} days`;
+}
+
+export function formatConditions(conditions: string[]) {
+  return conditions.length ? conditions.join(", ") : "None";
+}
+
+/** Tailwind size for the holder name so long names shrink before they wrap. */
+export function nameSizeClass(licence: Pick<LicenceData, "givenNames" | "familyName">) {
+  const len = licence.givenNames.length + 1 + licence.familyName.length;
+  if (len > 34) return "text-lg";
+  if (len > 24) return "text-xl";
+  return "text-2xl";
+}
+
+const isNonEmptyString = (v: unknown): v is string => typeof v === "string" && v.trim() !== "";
+
+/**
+ * Validate an untyped record (e.g. parsed JSON) into `LicenceData`.
+ * Throws `LicenceValidationError` listing every problem found.
+ */
+export function parseLicence(input: unknown): LicenceData {
+  const issues: string[] = [];
+  if (typeof input !== "object" || input === null) {
+    throw new LicenceValidationError(["record must be an object"]);
+  }
+  const raw = input as Record<string, unknown>;
+
+  for (const key of ["givenNames", "familyName", "licenceNumber", "address"] as const) {
+    if (!isNonEmptyString(raw[key])) issues.push(`${key} is required`);
+  }
+  for (const key of ["expiry", "dateOfBirth"] as const) {
+    const v = raw[key];
+    if (!isNonEmptyString(v)) issues.push(`${key} is required`);
+    else if (!parseLicenceDate(v)) issues.push(`${key} is not a valid date: "${v}"`);
+  }
+
+  const credentialType = raw.credentialType as CredentialType | undefined;
+  if (credentialType !== undefined && !CREDENTIAL_TYPES.includes(credentialType)) {
+    issues.push(`credentialType must be one of ${CREDENTIAL_TYPES.join(", ")}`);
+  }
+  // A Photo Card is ID only and an RSA card a competency: no classes
+  const classless = credentialType !== undefined && CLASSLESS_TYPES.includes(credentialType);
+  const classes = raw.classes ?? (classless ? [] : undefined);
+  if (classless) {
+    if (!Array.isArray(classes) || classes.length) issues.push(`a ${credentialType} has no classes`);
+  } else if (!Array.isArray(classes) || classes.length === 0 || !classes.every(isNonEmptyString)) {
+    issues.push("classes must be a non-empty list of class codes");
+  }
+  const conditions = raw.conditions ?? [];
+  if (!Array.isArray(conditions) || !conditions.every(isNonEmptyString)) {
+    issues.push("conditions must be a list of condition codes");
+  }
+  if (raw.portraitUrl !== undefined && typeof raw.portraitUrl !== "string") {
+    issues.push("portraitUrl must be a string");
+  }
+  if (
+    raw.sensitiveFields !== undefined &&
+    !(Array.isArray(raw.sensitiveFields) && raw.sensitiveFields.every((f) => SENSITIVE_FIELDS.includes(f)))
+  ) {
+    issues.push(`sensitiveFields must only contain ${SENSITIVE_FIELDS.join(", ")}`);
+  }
+  if (raw.cardNumber !== undefined && !isNonEmptyString(raw.cardNumber)) {
+    issues.push("cardNumber must be a non-empty string");
+  }
+  if (raw.issueDate !== undefined && !(isNonEmptyString(raw.issueDate) && parseLicenceDate(raw.issueDate))) {
+    issues.push(`issueDate is not a valid date: "${raw.issueDate}"`);
+  }
+  const history = raw.classHistory;
+  if (
+    history !== undefined &&
+    !(
+      Array.isArray(history) &&
+      history.every(
+        (h) => h && isNonEmptyString(h.cls) && isNonEmptyString(h.since) && parseLicenceDate(h.since) !== null
+      )
+    )
+  ) {
+    issues.push("classHistory must be a list of { cls, since } with valid dates");
+  }
+  if (raw.refreshedAt !== undefined) {
+    if (typeof raw.refreshedAt !== "string" || Number.isNaN(Date.parse(raw.refreshedAt))) {
+      issues.push("refreshedAt must be an ISO date-time");
+    }
+  }
+
+  if (raw.status !== undefined && !RECORDED_STATUSES.includes(raw.status as RecordedStatus)) {
+    issues.push(`status must be one of ${RECORDED_STATUSES.join(", ")}`);
+  }
+
+  if (issues.length) throw new LicenceValidationError(issues);
+
+  // Normalise display dates to ISO so downstream code only sees one form
+  const toIso = (v: string) => parseLicenceDate(v)!.toISOString().slice(0, 10);
+  return {
+    givenNames: (raw.givenNames as string).trim(),
+    familyName: (raw.familyName as string).trim(),
+    licenceNumber: (raw.licenceNumber as string).trim(),
+    expiry: toIso(raw.expiry as string),
+    dateOfBirth: toIso(raw.dateOfBirth as string),
+    classes: (classes as string[]).map((c) => c.trim()),
+    conditions: (conditions as string[]).map((c) => c.trim()),
+    address: (raw.address as string).trim(),
+    portraitUrl: raw.portraitUrl as string | undefined,
+    refreshedAt: raw.refreshedAt as string | undefined,
+    sensitiveFields: raw.sensitiveFields as SensitiveField[] | undefined,
+    cardNumber: (raw.cardNumber as string | undefined)?.trim(),
+    issueDate: raw.issueDate === undefined ? undefined : toIso(raw.issueDate as string),
+    classHistory: (history as ClassHistoryEntry[] | undefined)?.map((h) => ({ cls: h.cls.trim(), since: toIso(h.since) })),
+    status: raw.status as RecordedStatus | undefined,
+    credentialType,
+  };
+}
+
+// ------- Status -------
+/** Licences are issued and expire on NSW calendar dates, whatever the device's timezone. */
+export const LICENCE_TIME_ZONE = "Australia/Sydney";
+export const EXPIRING_WITHIN_DAYS = 30;
+
+const sydneyParts = new Intl.DateTimeFormat("en-AU", {
+  timeZone: LICENCE_TIME_ZONE,
+  year: "numeric",
+  month: "numeric",
+  day: "numeric",
+});
+
+/** The Sydney calendar date at instant `now`, as UTC midnight (the form `parseLicenceDate` returns). */
+export function sydneyDate(now: Date) {
+  const parts = sydneyParts.formatToParts(now);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)!.value);
+  return new Date(Date.UTC(part("year"), part("month") - 1, part("day")));
+}
+
+/** The instant the Sydney calendar date next changes after `now` (status, days left and ages roll over then). */
+export function nextSydneyMidnight(now: Date) {
+  const tomorrow = sydneyDate(now);
+  tomorrow.setUTCDate(tomorrow.getUTCDate() + 1);
+  // Sydney is UTC+10 or +11 at midnight (daylight saving switches at 2–3am)
+  for (const hours of [11, 10]) {
+    const at = new Date(tomorrow.getTime() - hours * 3_600_000);
+    if (sydneyDate(at).getTime() === tomorrow.getTime() && sydneyDate(new Date(at.getTime() - 1)).getTime() < tomorrow.getTime()) return at;
+  }
+  throw new Error("No Sydney midnight found");
+}
+
+export interface StatusInfo {
+  status: LicenceStatus;
+  /** Whole days until expiry: 0 on the last valid day, negative once expired. */
+  daysLeft: number | null;
+}
+
+/**
+ * Cancelled and suspended override the dates. Otherwise a licence is valid
+ * through the end of its expiry day in Sydney, and "expiring" in the last
+ * `expiringWithinDays` days.
+ */
+export function licenceStatus(
+  licence: LicenceData,
+  now = new Date(),
+  expiringWithinDays = EXPIRING_WITHIN_DAYS
+): StatusInfo {
+  const expiry = parseLicenceDate(licence.expiry);
+  const daysLeft = expiry ? Math.round((expiry.getTime() - sydneyDate(now).getTime()) / 86_400_000) : null;
+  if (licence.status === "cancelled" || licence.status === "suspended") return { status: licence.status, daysLeft };
+  if (daysLeft === null || daysLeft < 0) return { status: "expired", daysLeft };
+  return { status: daysLeft <= expiringWithinDays ? "expiring" : "current", daysLeft };
+}
+
+/** Claims carried in the card's QR code. Keys are short to keep the symbol small. */
+export interface LicenceClaims {
+  typ: "nsw.dl";
+  given: string;
+  family: string;
+  num: string;
+  exp: string;
+  dob: string;
+  cls: string[];
+  cond: string[];
+  /** Status when the QR was generated, so a checkpoint sees it even offline. */
+  st: LicenceStatus;
+}
+
+export function licenceClaims(licence: LicenceData, now = new Date()): LicenceClaims {
+  return {
+    typ: "nsw.dl",
+    given: licence.givenNames,
+    family: licence.familyName,
+    num: licence.licenceNumber,
+    exp: licence.expiry,
+    dob: licence.dateOfBirth,
+    cls: licence.classes,
+    cond: licence.conditions,
+    st: licenceStatus(licence, now).status,
+  };
+}
+
+/** Whole years between a date of birth and `today`, both calendar dates as UTC midnight. */
+export function ageOn(dateOfBirth: Date, today: Date) {
+  let age = today.getUTCFullYear() - dateOfBirth.getUTCFullYear();
+  const monthDiff = today.getUTCMonth() - dateOfBirth.getUTCMonth();
+  if (monthDiff < 0 || (monthDiff === 0 && today.getUTCDate() < dateOfBirth.getUTCDate())) age--;
+  return age;
+}
+
+/**
+ * Selective-disclosure claims for "prove your age": only the threshold result
+ * is carried, never the date of birth or any other field.
+ */
+export interface AgeClaims {
+  typ: "nsw.age";
+  over: number;
+  result: boolean;
+  /** A suspended or cancelled licence still proves age, but the verifier should see why. */
+  st: LicenceStatus;
+}
+
+export function ageClaims(licence: LicenceData, threshold: number, today = new Date()): AgeClaims {
+  const dob = parseLicenceDate(licence.dateOfBirth);
+  return {
+    typ: "nsw.age",
+    over: threshold,
+    // Birthdays tick over at Sydney midnight, with the status below
+    result: !!dob && ageOn(dob, sydneyDate(today)) >= threshold,
+    st: licenceStatus(licence, today).status,
+  };
+}
+
+// ------- Demo records -------
+const PORTRAIT_URL = samplePortraitUrl;
+
+// The "expiring" sample has to stay a few weeks out whenever the preview runs
+const inDays = (days: number) => {
+  const d = sydneyDate(new Date());
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+};
+
+export const SAMPLE_LICENCES: Record<string, LicenceData> = {
+  trevor: parseLicence({
+    givenNames: "Trevor William",
+    familyName: "LONG",
+    licenceNumber: "1234 5678",
+    expiry: "2021-07-13",
+    dateOfBirth: "1980-12-14",
+    classes: ["C"],
+    conditions: [],
+    address: "123 Fake Street, SYDNEY NSW 2000",
+    portraitUrl: PORTRAIT_URL,
+    refreshedAt: "2019-06-19T06:34:00",
+    cardNumber: "2012345678",
+    issueDate: "2016-07-13",
+    classHistory: [{ cls: "C", since: "1998-01-20" }],
+  }),
+  multiClass: parseLicence({
+    givenNames: "Aroha",
+    familyName: "NGATA",
+    licenceNumber: "9876 5432",
+    expiry: "2029-03-02",
+    dateOfBirth: "1975-05-30",
+    classes: ["C", "R", "MR"],
+    conditions: ["S", "V"],
+    address: "Unit 4, 17 Harbour View Parade, WOLLONGONG NSW 2500",
+    portraitUrl: PORTRAIT_URL,
+    sensitiveFields: ["licenceNumber", "address", "dateOfBirth"],
+    cardNumber: "2098765432",
+    issueDate: "2024-03-02",
+    classHistory: [
+      { cls: "C", since: "1993-08-11" },
+      { cls: "R", since: "2001-04-03" },
+      { cls: "MR", since: "2015-10-19" },
+    ],
+  }),
+  longName: parseLicence({
+    givenNames: "Maximilian Alexander Konstantin",
+    familyName: "PAPADOPOULOS-WETHERINGTON",
+    licenceNumber: "5555 0101",
+    expiry: "2027-11-30",
+    dateOfBirth: "2001-02-28",
+    classes: ["C"],
+    conditions: ["A"],
+    address: "88 Long Gully Road, TAMWORTH NSW 2340",
+  }),
+  expiringSoon: parseLicence({
+    givenNames: "Priya",
+    familyName: "RAMAN",
+    licenceNumber: "4321 8765",
+    expiry: inDays(12),
+    dateOfBirth: "1990-09-09",
+    classes: ["C"],
+    conditions: [],
+    address: "2/40 Station Street, PARRAMATTA NSW 2150",
+    portraitUrl: PORTRAIT_URL,
+  }),
+  suspended: parseLicence({
+    givenNames: "Daniel",
+    familyName: "OKAFOR",
+    licenceNumber: "7777 2020",
+    expiry: "2028-05-17",
+    dateOfBirth: "1986-01-23",
+    classes: ["C", "LR"],
+    conditions: ["I"],
+    address: "15 Ridge Road, ORANGE NSW 2800",
+    portraitUrl: PORTRAIT_URL,
+    status: "suspended",
+  }),
+  cancelled: parseLicence({
+    givenNames: "Sophie",
+    familyName: "TRAN",
+    licenceNumber: "3030 4141",
+    expiry: "2027-08-01",
+    dateOfBirth: "1995-12-02",
+    classes: ["C"],
+    conditions: [],
+    address: "9 Beach Road, NEWCASTLE NSW 2300",
+    status: "cancelled",
+  }),
+  learner: parseLicence({
+    givenNames: "Mia",
+    familyName: "COSTA",
+    licenceNumber: "6060 1212",
+    expiry: "2029-02-14",
+    dateOfBirth: "2009-04-18",
+    classes: ["C"],
+    conditions: [],
+    address: "31 Gum Tree Lane, PENRITH NSW 2750",
+    portraitUrl: PORTRAIT_URL,
+    credentialType: "learner",
+  }),
+  p1: parseLicence({
+    givenNames: "Jack",
+    familyName: "NGUYEN",
+    licenceNumber: "7171 3434",
+    expiry: "2027-10-05",
+    dateOfBirth: "2007-10-05",
+    classes: ["C"],
+    conditions: [],
+    address: "5 Acacia Avenue, CAMPBELLTOWN NSW 2560",
+    portraitUrl: PORTRAIT_URL,
+    credentialType: "p1",
+  }),
+  p2: parseLicence({
+    givenNames: "Olivia",
+    familyName: "SMITH",
+    licenceNumber: "8282 5656",
+    expiry: "2028-01-22",
+    dateOfBirth: "2005-01-22",
+    classes: ["C"],
+    conditions: ["A"],
+    address: "60 Hunter Street, MAITLAND NSW 2320",
+    portraitUrl: PORTRAIT_URL,
+    credentialType: "p2",
+  }),
+  rider: parseLicence({
+    givenNames: "Liam",
+    familyName: "O'BRIEN",
+    licenceNumber: "9393 7878",
+    expiry: "2030-06-30",
+    dateOfBirth: "1988-06-30",
+    classes: ["R"],
+    conditions: [],
+    address: "12 Ocean Drive, PORT MACQUARIE NSW 2444",
+    portraitUrl: PORTRAIT_URL,
+  }),
+  photoCard: parseLicence({
+    givenNames: "Margaret Anne",
+    familyName: "WILSON",
+    licenceNumber: "1010 9090",
+    expiry: "2030-11-11",
+    dateOfBirth: "1948-11-11",
+    conditions: [],
+    address: "7 Church Street, BATHURST NSW 2795",
+    portraitUrl: PORTRAIT_URL,
+    credentialType: "photoCard",
+  }),
+  boat: parseLicence({
+    givenNames: "Trevor William",
+    familyName: "LONG",
+    licenceNumber: "BL 4455 6677",
+    expiry: "2028-03-01",
+    dateOfBirth: "1980-12-14",
+    classes: ["General", "PWC"],
+    conditions: [],
+    address: "123 Fake Street, SYDNEY NSW 2000",
+    portraitUrl: PORTRAIT_URL,
+    credentialType: "boat",
+  }),
+  rsa: parseLicence({
+    givenNames: "Trevor William",
+    familyName: "LONG",
+    licenceNumber: "RSA 1098 7654",
+    expiry: "2027-08-20",
+    dateOfBirth: "1980-12-14",
+    conditions: [],
+    address: "123 Fake Street, SYDNEY NSW 2000",
+    portraitUrl: PORTRAIT_URL,
+    credentialType: "rsa",
+  }),
+};
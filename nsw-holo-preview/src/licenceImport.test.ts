@@ -0,0 +1,173 @@
+import { describe, expect, it } from "vitest";
+import { CborTag } from "./cbor";
+import {
+  LicenceImportError,
+  MDOC_NAMESPACE,
+  importLicence,
+  importLicenceFile,
+  licenceFromJson,
+  licenceFromMdoc,
+  portraitDataUrl,
+} from "./licenceImport";
+import { encodeCbor, issuerSignedItem } from "./test/cborEncode";
+
+const JPEG = Uint8Array.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10]);
+const fullDate = (s: string) => new CborTag(1004, s);
+
+const ELEMENTS: [string, unknown][] = [
+  ["family_name", "CITIZEN"],
+  ["given_name", "Jane"],
+  ["birth_date", fullDate("1990-02-28")],
+  ["issue_date", fullDate("2024-03-01")],
+  ["expiry_date", fullDate("2034-03-01")],
+  ["document_number", "12345678"],
+  ["portrait", JPEG],
+  [
+    "driving_privileges",
+    [
+      { vehicle_category_code: "C", issue_date: fullDate("2008-05-01"), codes: [{ code: "A" }] },
+      { vehicle_category_code: "R", issue_date: fullDate("2015-01-20"), codes: [{ code: "A" }, { code: "E" }] },
+    ],
+  ],
+  ["resident_city", "SYDNEY"],
+  ["resident_state", "NSW"],
+  ["resident_postal_code", "2000"],
+];
+
+const deviceResponse = (elements = ELEMENTS) =>
+  encodeCbor({
+    version: "1.0",
+    documents: [
+      {
+        docType: `${MDOC_NAMESPACE}.mDL`,
+        issuerSigned: {
+          nameSpaces: { [MDOC_NAMESPACE]: elements.map(([id, value], i) => issuerSignedItem(i, id, value)) },
+          issuerAuth: [],
+        },
+      },
+    ],
+    status: 0,
+  });
+
+const importError = (run: () => unknown) => {
+  try {
+    run();
+  } catch (err) {
+    expect(err).toBeInstanceOf(LicenceImportError);
+    return err as LicenceImportError;
+  }
+  throw new Error("imported");
+};
+
+describe("licenceFromMdoc", () => {
+  it("maps a DeviceResponse onto the card's record", () => {
+    expect(licenceFromMdoc(deviceResponse())).toEqual({
+      givenNames: "Jane",
+      familyName: "CITIZEN",
+      licenceNumber: "12345678",
+      dateOfBirth: "1990-02-28",
+      expiry: "2034-03-01",
+      issueDate: "2024-03-01",
+      classes: ["C", "R"],
+      conditions: ["A", "E"],
+      classHistory: [
+        { cls: "C", since: "2008-05-01" },
+        { cls: "R", since: "2015-01-20" },
+      ],
+      address: "SYDNEY NSW 2000",
+      portraitUrl: "data:image/jpeg;base64,/9j/4AAQ",
+    });
+  });
+
+  it("accepts bare IssuerSigned data with elements as a plain map", () => {
+    const bytes = encodeCbor({
+      nameSpaces: {
+        [MDOC_NAMESPACE]: {
+          family_name: "CITIZEN",
+          given_name: "Jane",
+          birth_date: "1990-02-28",
+          expiry_date: new CborTag(0, "2034-03-01T00:00:00Z"),
+          document_number: "12345678",
+          resident_address: "1 Test St, SYDNEY NSW 2000",
+        },
+      },
+    });
+    const licence = licenceFromMdoc(bytes);
+    expect(licence.expiry).toBe("2034-03-01");
+    expect(licence.address).toBe("1 Test St, SYDNEY NSW 2000");
+    // No driving privileges: an ID-only card
+    expect(licence.classes).toEqual([]);
+    expect(licence.credentialType).toBe("photoCard");
+    expect(licence.portraitUrl).toBeUndefined();
+  });
+
+  it("lists every missing element", () => {
+    const elements = ELEMENTS.filter(([id]) => id !== "given_name" && id !== "expiry_date");
+    const err = importError(() => licenceFromMdoc(deviceResponse(elements)));
+    expect(err.issues).toEqual(["given_name", "expiry_date"]);
+    expect(err.message).toBe("Missing mdoc elements: given_name; expiry_date");
+  });
+
+  it("explains malformed and unexpected input", () => {
+    expect(importError(() => licenceFromMdoc(Uint8Array.from([0xa1, 0x61]))).message).toMatch(/^Not a valid CBOR mdoc: Unexpected end of data/);
+    expect(importError(() => licenceFromMdoc(encodeCbor({ documents: [] }))).message).toBe("The DeviceResponse has no documents");
+    expect(importError(() => licenceFromMdoc(encodeCbor({ docType: "org.iso.23220.photoid.1" }))).message).toBe(
+      'Unsupported document type "org.iso.23220.photoid.1"; expected org.iso.18013.5.1.mDL'
+    );
+    expect(importError(() => licenceFromMdoc(encodeCbor({ nameSpaces: {} }))).message).toBe(
+      "No org.iso.18013.5.1 elements found in this mdoc"
+    );
+    const badDate = ELEMENTS.map(([id, v]): [string, unknown] => [id, id === "birth_date" ? fullDate("1990-02-30") : v]);
+    expect(importError(() => licenceFromMdoc(deviceResponse(badDate))).issues).toEqual([
+      'dateOfBirth is not a valid date: "1990-02-30"',
+    ]);
+  });
+});
+
+describe("licenceFromJson", () => {
+  it("reads mdoc elements as JSON with a base64 portrait", () => {
+    const licence = licenceFromJson(
+      JSON.stringify({
+        [MDOC_NAMESPACE]: {
+          family_name: "CITIZEN",
+          given_name: "Jane",
+          birth_date: "1990-02-28",
+          expiry_date: "2034-03-01",
+          document_number: "12345678",
+          driving_privileges: [{ vehicle_category_code: "C" }],
+          portrait: "iVBORw0KGgo=",
+        },
+      })
+    );
+    expect(licence.classes).toEqual(["C"]);
+    expect(licence.address).toBe("—");
+    expect(licence.portraitUrl).toBe("data:image/png;base64,iVBORw0KGgo=");
+  });
+
+  it("reads the card's own record and reports its problems", () => {
+    const record = { givenNames: "Jane", familyName: "CITIZEN", licenceNumber: "1", expiry: "13 Jul 2030", dateOfBirth: "2000-01-01", classes: ["C"], address: "x" };
+    expect(licenceFromJson(JSON.stringify(record)).expiry).toBe("2030-07-13");
+    expect(importError(() => licenceFromJson(JSON.stringify({ ...record, classes: [] }))).message).toBe(
+      "The record can't be shown: classes must be a non-empty list of class codes"
+    );
+    expect(importError(() => licenceFromJson("{ nope")).message).toMatch(/^Not valid JSON/);
+  });
+});
+
+describe("importLicence", () => {
+  it("tells JSON from CBOR by the first byte", async () => {
+    expect(importLicence(deviceResponse()).familyName).toBe("CITIZEN");
+    const json = new TextEncoder().encode(`\uFEFF\n  ${JSON.stringify({ [MDOC_NAMESPACE]: { family_name: "X" } })}`);
+    expect(importError(() => importLicence(json)).message).toMatch(/^Missing mdoc elements/);
+    expect(importError(() => importLicence(new Uint8Array())).message).toBe("The file is empty");
+    // jsdom's Blob has no arrayBuffer()
+    const file = { arrayBuffer: async () => deviceResponse().buffer } as Blob;
+    expect((await importLicenceFile(file)).givenNames).toBe("Jane");
+  });
+
+  it("types portraits from their signature", () => {
+    expect(portraitDataUrl(JPEG)).toMatch(/^data:image\/jpeg;base64,/);
+    expect(portraitDataUrl(Uint8Array.from([0, 0, 0, 0x0c, 0x6a, 0x50, 0x20, 0x20]))).toMatch(/^data:image\/jp2;/);
+    expect(portraitDataUrl(Uint8Array.from([1, 2, 3]))).toBe("data:application/octet-stream;base64,AQID");
+  });
+});
@@ -0,0 +1,213 @@
+// ====== Licence import: ISO/IEC 18013-5 mdoc (CBOR) and JSON files ======
+// mdoc input may be a DeviceResponse, a single Document or bare IssuerSigned
+// data. Only the org.iso.18013.5.1 elements the card shows are read; issuer
+// signatures (issuerAuth) are not checked. Every record goes through
+// `parseLicence`, so imported data meets the same rules as the samples.
+import { CborError, CborTag, decodeCbor } from "./cbor";
+import { LicenceValidationError, parseLicence, type ClassHistoryEntry, type LicenceData } from "./licence";
+
+export const MDOC_NAMESPACE = "org.iso.18013.5.1";
+const MDL_DOCTYPE = `${MDOC_NAMESPACE}.mDL`;
+
+const REQUIRED_ELEMENTS = ["family_name", "given_name", "birth_date", "expiry_date", "document_number"];
+
+export class LicenceImportError extends Error {
+  constructor(
+    message: string,
+    /** Individual problems, e.g. each missing element or invalid field. */
+    public readonly issues: string[] = []
+  ) {
+    super(issues.length ? `${message}: ${issues.join("; ")}` : message);
+    this.name = "LicenceImportError";
+  }
+}
+
+/** Reads a picked or dropped file: JSON when it starts with `{`, otherwise CBOR mdoc. */
+export async function importLicenceFile(file: Blob) {
+  return importLicence(new Uint8Array(await file.arrayBuffer()));
+}
+
+export function importLicence(bytes: Uint8Array): LicenceData {
+  if (!bytes.length) throw new LicenceImportError("The file is empty");
+  // A CBOR mdoc starts with a map (0xa0–0xbf); JSON may have a BOM or whitespace first
+  const text = bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf ? bytes.subarray(3) : bytes;
+  const first = text.find((b) => b !== 0x20 && b !== 0x09 && b !== 0x0a && b !== 0x0d);
+  return first === 0x7b ? licenceFromJson(new TextDecoder().decode(text)) : licenceFromMdoc(bytes);
+}
+
+// ------- JSON -------
+/**
+ * Either the card's own record (see `LicenceData`) or mdoc elements as JSON:
+ * `{ "org.iso.18013.5.1": { "family_name": …, "portrait": "<base64>" } }`.
+ */
+export function licenceFromJson(text: string): LicenceData {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (err) {
+    throw new LicenceImportError(`Not valid JSON (${(err as Error).message})`);
+  }
+  if (isRecord(json) && isRecord(json[MDOC_NAMESPACE])) {
+    const elements = new Map(Object.entries(json[MDOC_NAMESPACE] as Record<string, unknown>));
+    const portrait = elements.get("portrait");
+    if (typeof portrait === "string") elements.set("portrait", base64ToBytes(portrait));
+    return licenceFromElements(elements);
+  }
+  return validated(json);
+}
+
+// ------- mdoc -------
+export function licenceFromMdoc(bytes: Uint8Array): LicenceData {
+  let root: unknown;
+  try {
+    root = decodeCbor(bytes);
+  } catch (err) {
+    if (err instanceof CborError) throw new LicenceImportError(`Not a valid CBOR mdoc: ${err.message}`);
+    throw err;
+  }
+  return licenceFromElements(mdocElements(root));
+}
+
+/** The org.iso.18013.5.1 elements of the first document, by identifier. */
+function mdocElements(root: unknown) {
+  let doc = root;
+  const documents = get(doc, "documents");
+  if (documents !== undefined) {
+    if (!Array.isArray(documents) || !documents.length) throw new LicenceImportError("The DeviceResponse has no documents");
+    doc = documents[0];
+  }
+  const docType = get(doc, "docType");
+  if (docType !== undefined && docType !== MDL_DOCTYPE) {
+    throw new LicenceImportError(`Unsupported document type "${String(docType)}"; expected ${MDL_DOCTYPE}`);
+  }
+  const nameSpaces = get(get(doc, "issuerSigned") ?? doc, "nameSpaces");
+  const items = get(nameSpaces, MDOC_NAMESPACE);
+  if (items === undefined) throw new LicenceImportError(`No ${MDOC_NAMESPACE} elements found in this mdoc`);
+
+  const elements = new Map<string, unknown>();
+  if (items instanceof Map) {
+    // Some tools export elements as a plain identifier → value map
+    items.forEach((value, key) => elements.set(String(key), value));
+  } else if (Array.isArray(items)) {
+    items.forEach((entry, i) => {
+      // IssuerSignedItemBytes = #6.24(bstr .cbor IssuerSignedItem)
+      let item = entry;
+      if (item instanceof CborTag && item.tag === 24 && item.value instanceof Uint8Array) {
+        try {
+          item = decodeCbor(item.value);
+        } catch (err) {
+          throw new LicenceImportError(`Element ${i} is not valid CBOR: ${(err as Error).message}`);
+        }
+      }
+      const id = get(item, "elementIdentifier");
+      if (typeof id !== "string") throw new LicenceImportError(`Element ${i} has no elementIdentifier`);
+      elements.set(id, get(item, "elementValue"));
+    });
+  } else {
+    throw new LicenceImportError(`${MDOC_NAMESPACE} must be a list of issuer-signed items`);
+  }
+  return elements;
+}
+
+// ------- Element mapping -------
+function licenceFromElements(elements: Map<string, unknown>): LicenceData {
+  const missing = REQUIRED_ELEMENTS.filter((id) => elements.get(id) === undefined);
+  if (missing.length) throw new LicenceImportError("Missing mdoc elements", missing);
+
+  const privileges = elements.get("driving_privileges") ?? [];
+  if (!Array.isArray(privileges)) throw new LicenceImportError("driving_privileges must be a list");
+  const classes: string[] = [];
+  const conditions: string[] = [];
+  const classHistory: ClassHistoryEntry[] = [];
+  privileges.forEach((privilege, i) => {
+    const code = get(privilege, "vehicle_category_code");
+    if (typeof code !== "string") throw new LicenceImportError(`driving_privileges[${i}] has no vehicle_category_code`);
+    classes.push(code);
+    const since = get(privilege, "issue_date");
+    if (since !== undefined) classHistory.push({ cls: code, since: mdocDate(since) });
+    const codes = get(privilege, "codes") ?? [];
+    if (Array.isArray(codes)) {
+      codes.forEach((c) => {
+        const condition = get(c, "code");
+        if (typeof condition === "string" && !conditions.includes(condition)) conditions.push(condition);
+      });
+    }
+  });
+
+  const portrait = elements.get("portrait");
+  const issueDate = elements.get("issue_date");
+  return validated({
+    givenNames: elements.get("given_name"),
+    familyName: elements.get("family_name"),
+    licenceNumber: elements.get("document_number"),
+    dateOfBirth: mdocDate(elements.get("birth_date")),
+    expiry: mdocDate(elements.get("expiry_date")),
+    issueDate: issueDate === undefined ? undefined : mdocDate(issueDate),
+    // An mdoc without driving privileges is shown as a Photo Card
+    classes,
+    conditions,
+    classHistory: classHistory.length ? classHistory : undefined,
+    // Address elements are optional in an mdoc but the card always shows the field
+    address: mdocAddress(elements) || "—",
+    portraitUrl: portrait instanceof Uint8Array ? portraitDataUrl(portrait) : undefined,
+    credentialType: classes.length ? undefined : "photoCard",
+  });
+}
+
+function validated(record: unknown) {
+  try {
+    return parseLicence(record);
+  } catch (err) {
+    if (err instanceof LicenceValidationError) throw new LicenceImportError("The record can't be shown", err.issues);
+    throw err;
+  }
+}
+
+/** full-date (tag 1004), tdate (tag 0) or a plain string, as `YYYY-MM-DD`. */
+function mdocDate(value: unknown): string {
+  const inner = value instanceof CborTag ? value.value : value;
+  if (typeof inner !== "string") return String(inner);
+  return /^\d{4}-\d{2}-\d{2}T/.test(inner) ? inner.slice(0, 10) : inner;
+}
+
+function mdocAddress(elements: Map<string, unknown>) {
+  const address = elements.get("resident_address");
+  if (typeof address === "string" && address.trim()) return address.trim();
+  return ["resident_city", "resident_state", "resident_postal_code"]
+    .map((id) => elements.get(id))
+    .filter((part): part is string => typeof part === "string" && !!part.trim())
+    .join(" ");
+}
+
+/** Portrait bytes as a data URL, typed from the file signature (JPEG, JPEG 2000 or PNG). */
+export function portraitDataUrl(bytes: Uint8Array) {
+  const starts = (...sig: number[]) => sig.every((b, i) => bytes[i] === b);
+  const type = starts(0xff, 0xd8)
+    ? "image/jpeg"
+    : starts(0x89, 0x50, 0x4e, 0x47)
+      ? "image/png"
+      : starts(0x00, 0x00, 0x00, 0x0c, 0x6a, 0x50)
+        ? "image/jp2"
+        : "application/octet-stream";
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return `data:${type};base64,${btoa(binary)}`;
+}
+
+function base64ToBytes(base64: string) {
+  try {
+    return Uint8Array.from(atob(base64.replace(/\s/g, "")), (c) => c.charCodeAt(0));
+  } catch {
+    throw new LicenceImportError("portrait must be base64");
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/** `key` of a CBOR map or JSON object; undefined for anything else. */
+function get(value: unknown, key: string): unknown {
+  if (value instanceof Map) return value.get(key);
+  if (isRecord(value) && !(value instanceof CborTag) && !(value instanceof Uint8Array)) return value[key];
+  return undefined;
+}
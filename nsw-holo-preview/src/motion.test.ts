@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { ambientDrift, isSpringAtRest, stepSpring } from "./motion";
+
+describe("stepSpring", () => {
+  it("gives the same motion at 60 Hz and 120 Hz", () => {
+    const at60 = { x: 50, y: 50, vx: 0, vy: 0 };
+    const at120 = { x: 50, y: 50, vx: 0, vy: 0 };
+    for (let i = 0; i < 30; i++) stepSpring(at60, { x: 90, y: 10 }, 1 / 60);
+    for (let i = 0; i < 60; i++) stepSpring(at120, { x: 90, y: 10 }, 1 / 120);
+    expect(at60.x).toBeCloseTo(at120.x, 6);
+    expect(at60.y).toBeCloseTo(at120.y, 6);
+  });
+
+  it("settles on the target without overshooting by default", () => {
+    const s = { x: 50, y: 50, vx: 0, vy: 0 };
+    let max = 0;
+    for (let i = 0; i < 240; i++) {
+      stepSpring(s, { x: 90, y: 50 }, 1 / 60);
+      max = Math.max(max, s.x);
+    }
+    expect(max).toBeLessThanOrEqual(90.01);
+    expect(isSpringAtRest(s, { x: 90, y: 50 })).toBe(true);
+  });
+});
+
+describe("ambientDrift", () => {
+  it("stays within the amplitude", () => {
+    for (let t = 0; t < 60; t += 0.25) {
+      const d = ambientDrift(t, 10);
+      expect(Math.abs(d.x)).toBeLessThanOrEqual(10);
+      expect(Math.abs(d.y)).toBeLessThanOrEqual(10);
+    }
+  });
+});
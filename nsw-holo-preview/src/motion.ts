@@ -0,0 +1,70 @@
+// ====== Tilt motion: time-based spring + ambient drift (pure, no React) ======
+
+/** Spring constants in per-second units, so motion is identical at 60 Hz and 120 Hz. */
+export interface SpringConfig {
+  stiffness: number;
+  damping: number;
+}
+
+/** Critically damped (damping = 2·√stiffness): settles like the old 0.12 lerp, no overshoot. */
+export const DEFAULT_SPRING: SpringConfig = { stiffness: 120, damping: 22 };
+
+export interface SpringState {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+}
+
+// Larger frame gaps are split so stiff springs stay stable
+const MAX_SUBSTEP = 1 / 120;
+
+/** Advance `state` towards `target` by `dt` seconds (semi-implicit Euler). Mutates `state`. */
+export function stepSpring(
+  state: SpringState,
+  target: { x: number; y: number },
+  dt: number,
+  config: SpringConfig = DEFAULT_SPRING
+) {
+  let remaining = Math.max(0, dt);
+  while (remaining > 0) {
+    const h = Math.min(MAX_SUBSTEP, remaining);
+    remaining -= h;
+    state.vx += (config.stiffness * (target.x - state.x) - config.damping * state.vx) * h;
+    state.vy += (config.stiffness * (target.y - state.y) - config.damping * state.vy) * h;
+    state.x += state.vx * h;
+    state.y += state.vy * h;
+  }
+  return state;
+}
+
+export function isSpringAtRest(state: SpringState, target: { x: number; y: number }, epsilon = 0.01) {
+  return (
+    Math.abs(target.x - state.x) <= epsilon &&
+    Math.abs(target.y - state.y) <= epsilon &&
+    Math.abs(state.vx) <= epsilon &&
+    Math.abs(state.vy) <= epsilon
+  );
+}
+
+export interface AmbientConfig {
+  /** Peak offset in tilt percent (the tilt range is 10..90). */
+  amplitude: number;
+  /** Quiet time before the drift starts. */
+  idleAfterMs: number;
+  /** Seconds taken to ease the drift in once idle. */
+  fadeInSeconds: number;
+}
+
+export const DEFAULT_AMBIENT: AmbientConfig = { amplitude: 14, idleAfterMs: 2500, fadeInSeconds: 1.5 };
+
+/**
+ * Slow "breathing" offset at time `t` (seconds): two incommensurate sines per
+ * axis, so the path wanders instead of tracing an obvious loop.
+ */
+export function ambientDrift(t: number, amplitude: number) {
+  return {
+    x: amplitude * (0.7 * Math.sin(t * 0.55) + 0.3 * Math.sin(t * 1.37 + 1.1)),
+    y: amplitude * (0.7 * Math.cos(t * 0.43) + 0.3 * Math.sin(t * 1.13 + 2.3)),
+  };
+}
@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  DEFAULT_SNIPPET,
+  SnippetError,
+  evaluateSnippet,
+  loadCompiler,
+  loadSnippet,
+  saveSnippet,
+  transpileSnippet,
+} from "./playground";
+
+const fakeReact = { createElement: (type: unknown, props: unknown, ...children: unknown[]) => ({ type, props, children }) };
+
+describe("playground snippets", () => {
+  afterEach(() => localStorage.clear());
+
+  it("compiles the starter snippet and runs it against the given modules", async () => {
+    const ts = await loadCompiler();
+    const { code, diagnostics } = transpileSnippet(ts, DEFAULT_SNIPPET);
+    expect(diagnostics).toEqual([]);
+    const DigitalLicence = () => null;
+    const Preview = evaluateSnippet(code, {
+      react: fakeReact,
+      "./App": { DigitalLicence },
+      "./hologramPresets": { HOLOGRAM_PRESETS: { subtle: { params: "subtle" } } },
+    });
+    expect(Preview({ licence: "L", viewport: "V" })).toMatchObject({
+      type: DigitalLicence,
+      props: { licence: "L", viewport: "V", hologram: "subtle" },
+    });
+  });
+
+  it("reports syntax errors with 1-based positions", async () => {
+    const ts = await loadCompiler();
+    const { diagnostics } = transpileSnippet(ts, "export default function A() {\n  return <div>;\n}");
+    expect(diagnostics.length).toBeGreaterThan(0);
+    expect(diagnostics[0].line).toBe(2);
+  });
+
+  it("rejects unknown imports and snippets without a default export", async () => {
+    const ts = await loadCompiler();
+    const run = (source: string) => evaluateSnippet(transpileSnippet(ts, source).code, { react: fakeReact });
+    expect(() => run('import fs from "fs"; export default () => fs;')).toThrow(SnippetError);
+    expect(() => run("export const A = 1;")).toThrow(/default export/);
+  });
+
+  it("persists edits and forgets the starter snippet", () => {
+    saveSnippet("export default () => null;");
+    expect(loadSnippet()).toBe("export default () => null;");
+    saveSnippet(DEFAULT_SNIPPET);
+    expect(localStorage.length).toBe(0);
+    expect(loadSnippet()).toBe(DEFAULT_SNIPPET);
+  });
+});
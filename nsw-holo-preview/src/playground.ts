@@ -0,0 +1,112 @@
+// ====== Component playground: TSX snippets compiled and run in the browser ======
+// The bundled TypeScript compiler is loaded on first use. It is a chunk of its
+// own, a few MB, left out of the service worker's precache. It transpiles the
+// snippet to a CommonJS module with classic React.createElement JSX. The
+// module then runs against a fixed table of importable modules; anything else
+// fails with a SnippetError.
+// Transpiling only reports syntax errors; types aren't checked here.
+import type * as TS from "typescript";
+import type { DeviceViewport } from "./deviceProfiles";
+import type { LicenceData } from "./licence";
+
+/** Props the preview passes the snippet's default export. */
+export interface PlaygroundProps {
+  /** The sample record picked in the preview frame. */
+  licence: LicenceData;
+  /** The device screen the snippet is rendered on. */
+  viewport: DeviceViewport;
+}
+
+export interface SnippetDiagnostic {
+  /** 1-based, as editors show them. */
+  line: number;
+  column: number;
+  message: string;
+}
+
+export class SnippetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SnippetError";
+  }
+}
+
+const STORAGE_KEY = "nsw-holo.playground";
+
+export const DEFAULT_SNIPPET = `import React from "react";
+import { DigitalLicence } from "./App";
+import { HOLOGRAM_PRESETS } from "./hologramPresets";
+import type { PlaygroundProps } from "./playground";
+
+// Rendered in place of the card. \`licence\` is the sample picked above and
+// \`viewport\` the device screen. Edits are saved in this browser.
+export default function Preview({ licence, viewport }: PlaygroundProps) {
+  return <DigitalLicence licence={licence} viewport={viewport} hologram={HOLOGRAM_PRESETS.subtle.params} />;
+}
+`;
+
+let compiler: Promise<typeof TS> | null = null;
+
+/** The TypeScript compiler, fetched once on first use; a failed fetch is retried next time. */
+export function loadCompiler() {
+  compiler ??= import("typescript")
+    .then((m) => ((m as { default?: typeof TS }).default ?? m) as typeof TS)
+    .catch((err) => {
+      // Offline or a dropped connection; don't keep the rejection for the rest of the session
+      compiler = null;
+      throw err;
+    });
+  return compiler;
+}
+
+export function transpileSnippet(ts: typeof TS, source: string) {
+  const output = ts.transpileModule(source, {
+    fileName: "Snippet.tsx",
+    reportDiagnostics: true,
+    compilerOptions: {
+      target: ts.ScriptTarget.ES2020,
+      module: ts.ModuleKind.CommonJS,
+      jsx: ts.JsxEmit.React,
+      esModuleInterop: true,
+    },
+  });
+  const diagnostics: SnippetDiagnostic[] = (output.diagnostics ?? []).map((d) => {
+    const at = d.file && d.start !== undefined ? d.file.getLineAndCharacterOfPosition(d.start) : { line: 0, character: 0 };
+    return { line: at.line + 1, column: at.character + 1, message: ts.flattenDiagnosticMessageText(d.messageText, "\n") };
+  });
+  return { code: output.outputText, diagnostics };
+}
+
+/** Runs transpiled code with `modules` as its only imports and returns the default export. */
+export function evaluateSnippet<P>(code: string, modules: Record<string, unknown>) {
+  const module = { exports: {} as Record<string, unknown> };
+  const require = (name: string) => {
+    if (!(name in modules)) throw new SnippetError(`Cannot import "${name}". Available: ${Object.keys(modules).join(", ")}`);
+    return modules[name];
+  };
+  // Snippets that don't import React still compile to React.createElement
+  new Function("require", "module", "exports", "React", code)(require, module, module.exports, modules.react);
+  const component = module.exports.default;
+  if (typeof component !== "function") {
+    throw new SnippetError("The snippet needs a default export, e.g. export default function Preview() { … }");
+  }
+  return component as (props: P) => unknown;
+}
+
+// ------- Persistence -------
+/** The saved snippet, or the starter one. */
+export function loadSnippet() {
+  try {
+    return localStorage.getItem(STORAGE_KEY) ?? DEFAULT_SNIPPET;
+  } catch {
+    return DEFAULT_SNIPPET;
+  }
+}
+
+/** Saving the starter snippet clears storage, so later starter updates reach the user. */
+export function saveSnippet(source: string) {
+  try {
+    if (source === DEFAULT_SNIPPET) localStorage.removeItem(STORAGE_KEY);
+    else localStorage.setItem(STORAGE_KEY, source);
+  } catch {}
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { QrCapacityError, decodeQr, decodeQrImage, drawQrToCanvas, encodeQr } from "./qr";
+
+describe("encodeQr", () => {
+  it.each(["L", "M", "Q", "H"] as const)("decodes back to the input at ECC %s", (ecc) => {
+    const payload = JSON.stringify({ n: "Trevor William LONG", ok: "✓" }).repeat(3);
+    const qr = encodeQr(payload, { ecc });
+    const decoded = decodeQr(qr.modules);
+    expect(decoded.text).toBe(payload);
+    expect(decoded.ecc).toBe(ecc);
+  });
+
+  it("picks the smallest version that fits", () => {
+    expect(encodeQr("a".repeat(17), { ecc: "L" }).version).toBe(1);
+    expect(encodeQr("a".repeat(18), { ecc: "L" }).version).toBe(2);
+    expect(encodeQr("a".repeat(2953), { ecc: "L" }).version).toBe(40);
+  });
+
+  it("throws when the payload cannot fit", () => {
+    expect(() => encodeQr("a".repeat(1274), { ecc: "H" })).toThrow(QrCapacityError);
+  });
+
+  it("detects corrupted data", () => {
+    const qr = encodeQr("hello", { ecc: "L", mask: 0 });
+    const modules = qr.modules.map((row) => [...row]);
+    // Flip a run of data modules in the bottom-right corner
+    for (let x = qr.size - 4; x < qr.size; x++) modules[qr.size - 1][x] = !modules[qr.size - 1][x];
+    expect(() => decodeQr(modules)).toThrow(/error correction/);
+  });
+});
+
+describe("decodeQrImage", () => {
+  it("reads a rendered bitmap with a quiet zone", () => {
+    const text = "x".repeat(300);
+    const qr = encodeQr(text, { ecc: "M" });
+    const px = 397;
+    const data = new Uint8ClampedArray(px * px * 4);
+    // Minimal 2D context: drawQrToCanvas only needs fillStyle + fillRect
+    const ctx = {
+      fillStyle: "",
+      fillRect(x: number, y: number, w: number, h: number) {
+        const v = this.fillStyle === "#000000" ? 0 : 255;
+        for (let j = y; j < y + h; j++)
+          for (let i = x; i < x + w; i++) data.set([v, v, v, 255], (j * px + i) * 4);
+      },
+    };
+    drawQrToCanvas(ctx as unknown as CanvasRenderingContext2D, qr, px, 4);
+    expect(decodeQrImage({ width: px, height: px, data } as ImageData).text).toBe(text);
+  });
+});
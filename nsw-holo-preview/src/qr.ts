@@ -0,0 +1,577 @@
+// ====== QR Code model 2 encoder/decoder (byte mode, offline, no deps) ======
+// Follows ISO/IEC 18004. The decoder reads a clean module matrix (what the
+// encoder produced) and exists so we can round-trip payloads in tests.
+
+export type EccLevel = "L" | "M" | "Q" | "H";
+
+export interface QrMatrix {
+  version: number;
+  ecc: EccLevel;
+  mask: number;
+  size: number;
+  /** modules[y][x], true = dark */
+  modules: boolean[][];
+}
+
+export interface QrEncodeOptions {
+  ecc?: EccLevel;
+  minVersion?: number;
+  maxVersion?: number;
+  /** Force a mask pattern 0..7; picked by penalty score when omitted. */
+  mask?: number;
+}
+
+export class QrCapacityError extends Error {
+  constructor(bytes: number, ecc: EccLevel, maxVersion: number) {
+    super(`QR payload too long: ${bytes} bytes does not fit ECC ${ecc} up to version ${maxVersion}`);
+    this.name = "QrCapacityError";
+  }
+}
+
+export class QrDecodeError extends Error {
+  constructor(message: string) {
+    super("QR decode failed: " + message);
+    this.name = "QrDecodeError";
+  }
+}
+
+// ------- Spec tables (index 0 unused) -------
+const ECC_CODEWORDS_PER_BLOCK: Record<EccLevel, number[]> = {
+  L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  Q: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  H: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+};
+const NUM_ECC_BLOCKS: Record<EccLevel, number[]> = {
+  L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  Q: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  H: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+};
+const FORMAT_BITS: Record<EccLevel, number> = { L: 1, M: 0, Q: 3, H: 2 };
+const MODE_BYTE = 0b0100;
+
+const getBit = (x: number, i: number) => ((x >>> i) & 1) !== 0;
+
+function rawDataModules(ver: number) {
+  let result = (16 * ver + 128) * ver + 64;
+  if (ver >= 2) {
+    const numAlign = Math.floor(ver / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (ver >= 7) result -= 36;
+  }
+  return result;
+}
+
+function dataCodewords(ver: number, ecc: EccLevel) {
+  return Math.floor(rawDataModules(ver) / 8) - ECC_CODEWORDS_PER_BLOCK[ecc][ver] * NUM_ECC_BLOCKS[ecc][ver];
+}
+
+function alignmentPositions(ver: number) {
+  if (ver === 1) return [];
+  const size = ver * 4 + 17;
+  const numAlign = Math.floor(ver / 7) + 2;
+  const step = ver === 32 ? 26 : Math.ceil((ver * 4 + 4) / (numAlign * 2 - 2)) * 2;
+  const result = [6];
+  for (let pos = size - 7; result.length < numAlign; pos -= step) result.splice(1, 0, pos);
+  return result;
+}
+
+const charCountBits = (ver: number) => (ver <= 9 ? 8 : 16);
+
+// ------- Reed–Solomon over GF(256), poly 0x11D -------
+function gfMul(x: number, y: number) {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z & 0xff;
+}
+
+function rsDivisor(degree: number) {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMul(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMul(root, 0x02);
+  }
+  return result;
+}
+
+function rsRemainder(data: number[], divisor: number[]) {
+  const result = new Array<number>(divisor.length).fill(0);
+  for (const b of data) {
+    const factor = b ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coef, i) => (result[i] ^= gfMul(coef, factor)));
+  }
+  return result;
+}
+
+// ------- Module grid -------
+class Grid {
+  readonly size: number;
+  readonly modules: boolean[][];
+  readonly isFunction: boolean[][];
+
+  constructor(readonly version: number) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.isFunction = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.drawFunctionPatterns();
+  }
+
+  private setFunction(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark;
+    this.isFunction[y][x] = true;
+  }
+
+  private drawFunctionPatterns() {
+    const { size } = this;
+    for (let i = 0; i < size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+    this.drawFinder(3, 3);
+    this.drawFinder(size - 4, 3);
+    this.drawFinder(3, size - 4);
+
+    const align = alignmentPositions(this.version);
+    const last = align.length - 1;
+    for (let i = 0; i < align.length; i++) {
+      for (let j = 0; j < align.length; j++) {
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) continue;
+        for (let dy = -2; dy <= 2; dy++) {
+          for (let dx = -2; dx <= 2; dx++) {
+            this.setFunction(align[i] + dx, align[j] + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+          }
+        }
+      }
+    }
+
+    // Reserve format areas now; real bits are drawn once the mask is known
+    this.drawFormatBits(0);
+    this.drawVersion();
+  }
+
+  private drawFinder(x: number, y: number) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const dist = Math.max(Math.abs(dx), Math.abs(dy));
+        const xx = x + dx,
+          yy = y + dy;
+        if (xx >= 0 && xx < this.size && yy >= 0 && yy < this.size) {
+          this.setFunction(xx, yy, dist !== 2 && dist !== 4);
+        }
+      }
+    }
+  }
+
+  drawFormatBits(bits: number) {
+    const { size } = this;
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, getBit(bits, i));
+    this.setFunction(8, 7, getBit(bits, 6));
+    this.setFunction(8, 8, getBit(bits, 7));
+    this.setFunction(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, getBit(bits, i));
+
+    for (let i = 0; i < 8; i++) this.setFunction(size - 1 - i, 8, getBit(bits, i));
+    for (let i = 8; i < 15; i++) this.setFunction(8, size - 15 + i, getBit(bits, i));
+    this.setFunction(8, size - 8, true);
+  }
+
+  private drawVersion() {
+    if (this.version < 7) return;
+    let rem = this.version;
+    for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+    const bits = (this.version << 12) | rem;
+    for (let i = 0; i < 18; i++) {
+      const bit = getBit(bits, i);
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunction(a, b, bit);
+      this.setFunction(b, a, bit);
+    }
+  }
+
+  /** Visit data modules in the spec's two-column zig-zag order. */
+  forEachDataModule(fn: (x: number, y: number) => void) {
+    const { size } = this;
+    for (let right = size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5;
+      for (let vert = 0; vert < size; vert++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? size - 1 - vert : vert;
+          if (!this.isFunction[y][x]) fn(x, y);
+        }
+      }
+    }
+  }
+
+  applyMask(mask: number) {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.isFunction[y][x] && maskBit(mask, x, y)) this.modules[y][x] = !this.modules[y][x];
+      }
+    }
+  }
+}
+
+function maskBit(mask: number, x: number, y: number) {
+  switch (mask) {
+    case 0: return (x + y) % 2 === 0;
+    case 1: return y % 2 === 0;
+    case 2: return x % 3 === 0;
+    case 3: return (x + y) % 3 === 0;
+    case 4: return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+    case 5: return ((x * y) % 2) + ((x * y) % 3) === 0;
+    case 6: return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+    case 7: return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+    default: throw new RangeError("Mask must be 0..7");
+  }
+}
+
+function formatBitsFor(ecc: EccLevel, mask: number) {
+  const data = (FORMAT_BITS[ecc] << 3) | mask;
+  let rem = data;
+  for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+  return ((data << 10) | rem) ^ 0x5412;
+}
+
+// ------- Penalty scoring (mask selection) -------
+const FINDER_LIKE = [
+  [true, false, true, true, true, false, true, false, false, false, false],
+  [false, false, false, false, true, false, true, true, true, false, true],
+];
+
+function penalty(modules: boolean[][]) {
+  const size = modules.length;
+  let score = 0;
+  const at = (x: number, y: number, horizontal: boolean) => (horizontal ? modules[y][x] : modules[x][y]);
+
+  for (const horizontal of [true, false]) {
+    for (let y = 0; y < size; y++) {
+      let run = 1;
+      for (let x = 1; x <= size; x++) {
+        if (x < size && at(x, y, horizontal) === at(x - 1, y, horizontal)) {
+          run++;
+        } else {
+          if (run >= 5) score += 3 + (run - 5);
+          run = 1;
+        }
+      }
+      for (let x = 0; x + 11 <= size; x++) {
+        for (const pattern of FINDER_LIKE) {
+          if (pattern.every((dark, k) => at(x + k, y, horizontal) === dark)) score += 40;
+        }
+      }
+    }
+  }
+
+  let dark = 0;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (modules[y][x]) dark++;
+      if (
+        x + 1 < size &&
+        y + 1 < size &&
+        modules[y][x] === modules[y][x + 1] &&
+        modules[y][x] === modules[y + 1][x] &&
+        modules[y][x] === modules[y + 1][x + 1]
+      ) {
+        score += 3;
+      }
+    }
+  }
+  const total = size * size;
+  score += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+  return score;
+}
+
+// ------- Encoder -------
+function toBytes(data: string | Uint8Array) {
+  return typeof data === "string" ? new TextEncoder().encode(data) : data;
+}
+
+function buildCodewords(bytes: Uint8Array, ver: number, ecc: EccLevel) {
+  const bits: number[] = [];
+  const push = (value: number, len: number) => {
+    for (let i = len - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  push(MODE_BYTE, 4);
+  push(bytes.length, charCountBits(ver));
+  bytes.forEach((b) => push(b, 8));
+
+  const capacityBits = dataCodewords(ver, ecc) * 8;
+  push(0, Math.min(4, capacityBits - bits.length));
+  push(0, (8 - (bits.length % 8)) % 8);
+
+  const data: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    data.push(bits.slice(i, i + 8).reduce((acc, b) => (acc << 1) | b, 0));
+  }
+  for (let pad = 0xec; data.length < capacityBits / 8; pad ^= 0xec ^ 0x11) data.push(pad);
+
+  // Split into blocks, append ECC, interleave
+  const numBlocks = NUM_ECC_BLOCKS[ecc][ver];
+  const blockEccLen = ECC_CODEWORDS_PER_BLOCK[ecc][ver];
+  const rawCodewords = Math.floor(rawDataModules(ver) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLen = Math.floor(rawCodewords / numBlocks);
+  const divisor = rsDivisor(blockEccLen);
+
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const dat = data.slice(k, k + shortBlockLen - blockEccLen + (i < numShortBlocks ? 0 : 1));
+    k += dat.length;
+    const eccWords = rsRemainder(dat, divisor);
+    if (i < numShortBlocks) dat.push(0);
+    blocks.push(dat.concat(eccWords));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLen - blockEccLen || j >= numShortBlocks) result.push(block[i]);
+    });
+  }
+  return result;
+}
+
+/** Encode bytes (strings as UTF-8) into the smallest QR version that fits. */
+export function encodeQr(data: string | Uint8Array, options: QrEncodeOptions = {}): QrMatrix {
+  const ecc = options.ecc ?? "M";
+  const minVersion = options.minVersion ?? 1;
+  const maxVersion = options.maxVersion ?? 40;
+  const bytes = toBytes(data);
+
+  let version = -1;
+  for (let v = minVersion; v <= maxVersion; v++) {
+    const needed = 4 + charCountBits(v) + bytes.length * 8;
+    if (needed <= dataCodewords(v, ecc) * 8) {
+      version = v;
+      break;
+    }
+  }
+  if (version < 0) throw new QrCapacityError(bytes.length, ecc, maxVersion);
+
+  const codewords = buildCodewords(bytes, version, ecc);
+  const grid = new Grid(version);
+  let i = 0;
+  grid.forEachDataModule((x, y) => {
+    if (i < codewords.length * 8) grid.modules[y][x] = getBit(codewords[i >>> 3], 7 - (i & 7));
+    i++;
+  });
+
+  let mask = options.mask ?? -1;
+  if (mask < 0) {
+    let best = Infinity;
+    for (let m = 0; m < 8; m++) {
+      grid.applyMask(m);
+      grid.drawFormatBits(formatBitsFor(ecc, m));
+      const score = penalty(grid.modules);
+      if (score < best) {
+        best = score;
+        mask = m;
+      }
+      grid.applyMask(m); // XOR again to undo
+    }
+  }
+  grid.applyMask(mask);
+  grid.drawFormatBits(formatBitsFor(ecc, mask));
+
+  return { version, ecc, mask, size: grid.size, modules: grid.modules };
+}
+
+// ------- Decoder (clean matrices only) -------
+export interface QrDecoded {
+  version: number;
+  ecc: EccLevel;
+  mask: number;
+  bytes: Uint8Array;
+  text: string;
+}
+
+function readFormat(modules: boolean[][]) {
+  let raw = 0;
+  const bit = (x: number, y: number, i: number) => {
+    if (modules[y][x]) raw |= 1 << i;
+  };
+  for (let i = 0; i <= 5; i++) bit(8, i, i);
+  bit(8, 7, 6);
+  bit(8, 8, 7);
+  bit(7, 8, 8);
+  for (let i = 9; i < 15; i++) bit(14 - i, 8, i);
+
+  // Nearest valid codeword; the BCH code corrects up to 3 bit errors
+  let best: { ecc: EccLevel; mask: number; dist: number } | null = null;
+  for (const ecc of ["L", "M", "Q", "H"] as EccLevel[]) {
+    for (let mask = 0; mask < 8; mask++) {
+      let diff = formatBitsFor(ecc, mask) ^ raw;
+      let dist = 0;
+      for (; diff; diff &= diff - 1) dist++;
+      if (!best || dist < best.dist) best = { ecc, mask, dist };
+    }
+  }
+  if (!best || best.dist > 3) throw new QrDecodeError("unreadable format information");
+  return best;
+}
+
+/** Decode a module matrix without quiet zone, e.g. `encodeQr(...).modules`. */
+export function decodeQr(modules: boolean[][]): QrDecoded {
+  const size = modules.length;
+  const version = (size - 17) / 4;
+  if (!Number.isInteger(version) || version < 1 || version > 40 || modules.some((row) => row.length !== size)) {
+    throw new QrDecodeError(`unsupported matrix size ${size}`);
+  }
+  const { ecc, mask } = readFormat(modules);
+
+  const grid = new Grid(version);
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const codewords = new Array<number>(rawCodewords).fill(0);
+  let i = 0;
+  grid.forEachDataModule((x, y) => {
+    if (i < rawCodewords * 8 && modules[y][x] !== maskBit(mask, x, y)) {
+      codewords[i >>> 3] |= 1 << (7 - (i & 7));
+    }
+    i++;
+  });
+
+  // De-interleave and check each block's syndrome
+  const numBlocks = NUM_ECC_BLOCKS[ecc][version];
+  const blockEccLen = ECC_CODEWORDS_PER_BLOCK[ecc][version];
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLen = Math.floor(rawCodewords / numBlocks);
+  const blocks: number[][] = Array.from({ length: numBlocks }, () => []);
+  let k = 0;
+  for (let col = 0; col <= shortBlockLen; col++) {
+    for (let j = 0; j < numBlocks; j++) {
+      // Short blocks have no codeword in the column holding long blocks' extra data byte
+      if (j < numShortBlocks && col === shortBlockLen - blockEccLen) continue;
+      blocks[j].push(codewords[k++]);
+    }
+  }
+
+  const divisor = rsDivisor(blockEccLen);
+  const data: number[] = [];
+  blocks.forEach((block) => {
+    const dat = block.slice(0, block.length - blockEccLen);
+    const eccWords = block.slice(block.length - blockEccLen);
+    if (rsRemainder(dat, divisor).some((w, idx) => w !== eccWords[idx])) {
+      throw new QrDecodeError("error correction check failed");
+    }
+    data.push(...dat);
+  });
+
+  let pos = 0;
+  const read = (len: number) => {
+    let v = 0;
+    for (let n = 0; n < len; n++, pos++) v = (v << 1) | ((data[pos >>> 3] >>> (7 - (pos & 7))) & 1);
+    return v;
+  };
+  const mode = read(4);
+  if (mode !== MODE_BYTE) throw new QrDecodeError(`unsupported mode 0b${mode.toString(2)}`);
+  const count = read(charCountBits(version));
+  if (pos + count * 8 > data.length * 8) throw new QrDecodeError("character count exceeds capacity");
+  const bytes = new Uint8Array(count);
+  for (let n = 0; n < count; n++) bytes[n] = read(8);
+
+  return { version, ecc, mask, bytes, text: new TextDecoder().decode(bytes) };
+}
+
+/**
+ * Decode an axis-aligned QR image (a screenshot or export of the card's code).
+ * Not a camera scanner: there is no perspective correction.
+ */
+export function decodeQrImage(image: ImageData): QrDecoded {
+  const { width, height, data } = image;
+  const lum = new Float32Array(width * height);
+  let lo = 255,
+    hi = 0;
+  for (let i = 0; i < lum.length; i++) {
+    const a = data[i * 4 + 3] / 255;
+    // Transparent pixels count as light (PNG exports often have no background)
+    const l = (0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]) * a + 255 * (1 - a);
+    lum[i] = l;
+    lo = Math.min(lo, l);
+    hi = Math.max(hi, l);
+  }
+  if (hi - lo < 32) throw new QrDecodeError("image has no contrast");
+  const threshold = (lo + hi) / 2;
+  const dark = (x: number, y: number) => lum[y * width + x] < threshold;
+
+  let minX = width,
+    minY = height,
+    maxX = -1,
+    maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!dark(x, y)) continue;
+      minX = Math.min(minX, x);
+      maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y);
+      maxY = Math.max(maxY, y);
+    }
+  }
+  if (maxX < 0) throw new QrDecodeError("no dark modules found");
+
+  // The top-left finder's top edge is a solid 7-module run
+  let run = 0;
+  while (minX + run <= maxX && dark(minX + run, minY)) run++;
+  const estimate = (maxX - minX + 1) / (run / 7);
+  const size = Math.round((estimate - 17) / 4) * 4 + 17;
+  if (size < 21 || size > 177) throw new QrDecodeError("could not locate finder pattern");
+
+  const stepX = (maxX - minX + 1) / size;
+  const stepY = (maxY - minY + 1) / size;
+  const modules = Array.from({ length: size }, (_, my) =>
+    Array.from({ length: size }, (_, mx) =>
+      dark(Math.floor(minX + (mx + 0.5) * stepX), Math.floor(minY + (my + 0.5) * stepY))
+    )
+  );
+  return decodeQr(modules);
+}
+
+// ------- Rendering helpers -------
+/** SVG path for dark modules, offset by the quiet zone (spec minimum is 4 modules). */
+export function qrSvgPath(qr: QrMatrix, quietZone = 4) {
+  let d = "";
+  qr.modules.forEach((row, y) =>
+    row.forEach((dark, x) => {
+      if (dark) d += `M${x + quietZone} ${y + quietZone}h1v1h-1z`;
+    })
+  );
+  return d;
+}
+
+export function drawQrToCanvas(
+  ctx: CanvasRenderingContext2D,
+  qr: QrMatrix,
+  pixelSize: number,
+  quietZone = 4,
+  colors = { dark: "#000000", light: "#ffffff" }
+) {
+  const total = qr.size + quietZone * 2;
+  const scale = pixelSize / total;
+  ctx.fillStyle = colors.light;
+  ctx.fillRect(0, 0, pixelSize, pixelSize);
+  ctx.fillStyle = colors.dark;
+  qr.modules.forEach((row, y) =>
+    row.forEach((dark, x) => {
+      // Snap edges to whole pixels so adjacent modules don't leave hairlines
+      if (!dark) return;
+      const x0 = Math.round((x + quietZone) * scale);
+      const y0 = Math.round((y + quietZone) * scale);
+      const x1 = Math.round((x + quietZone + 1) * scale);
+      const y1 = Math.round((y + quietZone + 1) * scale);
+      ctx.fillRect(x0, y0, x1 - x0, y1 - y0);
+    })
+  );
+}
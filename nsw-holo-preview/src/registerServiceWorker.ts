@@ -0,0 +1,10 @@
+// The service worker is generated at build time (see vite.config.ts) with the
+// hashed bundle names, so it only exists in production builds.
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("./sw.js").catch((err) => {
+      console.warn("Service worker registration failed; the preview won't work offline", err);
+    });
+  });
+}
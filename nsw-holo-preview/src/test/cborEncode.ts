@@ -0,0 +1,62 @@
+// Tiny CBOR encoder for building mdoc fixtures. Covers what the fixtures use:
+// unsigned/negative integers, strings, bytes, arrays, Maps, plain objects
+// (as text-keyed maps), booleans, null and tags. Definite lengths only.
+import { CborTag } from "../cbor";
+
+export function encodeCbor(value: unknown): Uint8Array {
+  const out: number[] = [];
+  const head = (major: number, n: number) => {
+    if (n < 24) out.push((major << 5) | n);
+    else if (n < 0x100) out.push((major << 5) | 24, n);
+    else if (n < 0x10000) out.push((major << 5) | 25, n >> 8, n & 0xff);
+    else out.push((major << 5) | 26, (n >>> 24) & 0xff, (n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff);
+  };
+  const write = (v: unknown) => {
+    if (v === false) out.push(0xf4);
+    else if (v === true) out.push(0xf5);
+    else if (v === null) out.push(0xf6);
+    else if (typeof v === "number") {
+      if (!Number.isInteger(v)) throw new Error("encodeCbor: floats aren't supported");
+      if (v >= 0) head(0, v);
+      else head(1, -1 - v);
+    } else if (typeof v === "string") {
+      const bytes = new TextEncoder().encode(v);
+      head(3, bytes.length);
+      out.push(...bytes);
+    } else if (v instanceof Uint8Array) {
+      head(2, v.length);
+      out.push(...v);
+    } else if (v instanceof CborTag) {
+      head(6, v.tag);
+      write(v.value);
+    } else if (Array.isArray(v)) {
+      head(4, v.length);
+      v.forEach(write);
+    } else if (v instanceof Map) {
+      head(5, v.size);
+      v.forEach((item, key) => {
+        write(key);
+        write(item);
+      });
+    } else if (typeof v === "object") {
+      const entries = Object.entries(v as Record<string, unknown>);
+      head(5, entries.length);
+      entries.forEach(([key, item]) => {
+        write(key);
+        write(item);
+      });
+    } else {
+      throw new Error(`encodeCbor: can't encode ${typeof v}`);
+    }
+  };
+  write(value);
+  return Uint8Array.from(out);
+}
+
+/** IssuerSignedItemBytes: #6.24(bstr .cbor IssuerSignedItem). */
+export function issuerSignedItem(digestID: number, elementIdentifier: string, elementValue: unknown) {
+  return new CborTag(
+    24,
+    encodeCbor({ digestID, random: new Uint8Array(16), elementIdentifier, elementValue })
+  );
+}
@@ -0,0 +1,23 @@
+// Global test setup: jsdom gaps the card relies on
+import { afterEach } from "vitest";
+import { cleanup } from "@testing-library/react";
+
+// jsdom has no PointerEvent; the card's gestures only need the MouseEvent fields plus these
+if (typeof window.PointerEvent === "undefined") {
+  class PointerEventPolyfill extends MouseEvent {
+    readonly pointerId: number;
+    readonly pointerType: string;
+    readonly isPrimary: boolean;
+    constructor(type: string, init: PointerEventInit = {}) {
+      super(type, init);
+      this.pointerId = init.pointerId ?? 1;
+      this.pointerType = init.pointerType ?? "mouse";
+      this.isPrimary = init.isPrimary ?? true;
+    }
+  }
+  window.PointerEvent = PointerEventPolyfill as unknown as typeof PointerEvent;
+}
+
+afterEach(() => {
+  cleanup();
+});
@@ -0,0 +1,133 @@
+// WebGL stand-in so the shader pipeline runs in jsdom without a GPU.
+// Records every call; tests read uniforms back or force compile failures.
+import { vi } from "vitest";
+
+export interface FakeGL {
+  kind: "webgl2" | "webgl";
+  canvas: HTMLCanvasElement;
+  calls: { name: string; args: unknown[] }[];
+  /** Last value passed to uniform1i/1f/2f/4fv, keyed by uniform name. */
+  uniforms: Record<string, number[]>;
+  lost: boolean;
+}
+
+export interface WebGLStubOptions {
+  /** Contexts to offer; an empty list simulates WebGL being disabled. */
+  support?: ("webgl2" | "webgl")[];
+  /** When set, every shader fails to compile with this info log. */
+  compileError?: string;
+}
+
+const CONSTANTS = {
+  VERTEX_SHADER: 0x8b31,
+  FRAGMENT_SHADER: 0x8b30,
+  COMPILE_STATUS: 0x8b81,
+  LINK_STATUS: 0x8b82,
+  ARRAY_BUFFER: 0x8892,
+  STATIC_DRAW: 0x88e4,
+  FLOAT: 0x1406,
+  TRIANGLES: 0x0004,
+  TEXTURE_2D: 0x0de1,
+  TEXTURE0: 0x84c0,
+  TEXTURE_MIN_FILTER: 0x2801,
+  TEXTURE_MAG_FILTER: 0x2800,
+  TEXTURE_WRAP_S: 0x2802,
+  TEXTURE_WRAP_T: 0x2803,
+  LINEAR: 0x2601,
+  CLAMP_TO_EDGE: 0x812f,
+  RGBA: 0x1908,
+  UNSIGNED_BYTE: 0x1401,
+  UNPACK_FLIP_Y_WEBGL: 0x9240,
+};
+
+function createFakeContext(canvas: HTMLCanvasElement, kind: FakeGL["kind"], options: WebGLStubOptions): FakeGL {
+  const fake: FakeGL = { kind, canvas, calls: [], uniforms: {}, lost: false };
+  const record =
+    <T>(name: string, result?: (...args: any[]) => T) =>
+    (...args: any[]) => {
+      fake.calls.push({ name, args });
+      return result?.(...args);
+    };
+  Object.assign(fake, CONSTANTS, {
+    createShader: record("createShader", () => ({})),
+    shaderSource: record("shaderSource"),
+    compileShader: record("compileShader"),
+    getShaderParameter: record("getShaderParameter", () => !options.compileError),
+    getShaderInfoLog: record("getShaderInfoLog", () => options.compileError ?? ""),
+    deleteShader: record("deleteShader"),
+    createProgram: record("createProgram", () => ({})),
+    attachShader: record("attachShader"),
+    linkProgram: record("linkProgram"),
+    getProgramParameter: record("getProgramParameter", () => true),
+    getProgramInfoLog: record("getProgramInfoLog", () => ""),
+    deleteProgram: record("deleteProgram"),
+    useProgram: record("useProgram"),
+    getAttribLocation: record("getAttribLocation", () => 0),
+    getUniformLocation: record("getUniformLocation", (_prog: unknown, name: string) => ({ name })),
+    createBuffer: record("createBuffer", () => ({})),
+    deleteBuffer: record("deleteBuffer"),
+    bindBuffer: record("bindBuffer"),
+    bufferData: record("bufferData"),
+    enableVertexAttribArray: record("enableVertexAttribArray"),
+    vertexAttribPointer: record("vertexAttribPointer"),
+    viewport: record("viewport"),
+    drawArrays: record("drawArrays"),
+    createTexture: record("createTexture", () => ({})),
+    deleteTexture: record("deleteTexture"),
+    bindTexture: record("bindTexture"),
+    activeTexture: record("activeTexture"),
+    texParameteri: record("texParameteri"),
+    texImage2D: record("texImage2D"),
+    pixelStorei: record("pixelStorei"),
+    isContextLost: () => fake.lost,
+    uniform1i: record("uniform1i", (loc: { name: string }, v: number) => {
+      fake.uniforms[loc.name] = [v];
+    }),
+    uniform1f: record("uniform1f", (loc: { name: string }, v: number) => {
+      fake.uniforms[loc.name] = [v];
+    }),
+    uniform4fv: record("uniform4fv", (loc: { name: string }, v: Float32Array) => {
+      fake.uniforms[loc.name] = Array.from(v);
+    }),
+    uniform2f: record("uniform2f", (loc: { name: string }, x: number, y: number) => {
+      fake.uniforms[loc.name] = [x, y];
+    }),
+  });
+  return fake;
+}
+
+/** Patch `HTMLCanvasElement.prototype.getContext`; returns the created contexts. */
+export function installWebGLStub(options: WebGLStubOptions = {}) {
+  const support = options.support ?? ["webgl2", "webgl"];
+  const contexts: FakeGL[] = [];
+  const byCanvas = new WeakMap<HTMLCanvasElement, FakeGL>();
+
+  const spy = vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockImplementation(function (
+    this: HTMLCanvasElement,
+    type: string
+  ) {
+    const existing = byCanvas.get(this);
+    if (existing) return (existing.kind === type ? existing : null) as never;
+    const kind = type === "experimental-webgl" ? "webgl" : type;
+    if (kind !== "webgl2" && kind !== "webgl") return null;
+    if (!support.includes(kind)) return null;
+    const fake = createFakeContext(this, kind, options);
+    byCanvas.set(this, fake);
+    contexts.push(fake);
+    return fake as never;
+  });
+
+  return {
+    contexts,
+    restore: () => spy.mockRestore(),
+    /** Fire webglcontextlost/restored the way a browser would. */
+    loseContext(fake: FakeGL) {
+      fake.lost = true;
+      fake.canvas.dispatchEvent(new Event("webglcontextlost", { cancelable: true }));
+    },
+    restoreContext(fake: FakeGL) {
+      fake.lost = false;
+      fake.canvas.dispatchEvent(new Event("webglcontextrestored"));
+    },
+  };
+}
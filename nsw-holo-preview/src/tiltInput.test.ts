@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_CALIBRATION, TiltInput, TiltSync, clamp, mapTiltToTarget, parseTiltTrace, targetsForTrace, type TiltTrace } from "./tiltInput";
+
+describe("clamp", () => {
+  it("passes values inside the range through", () => {
+    expect(clamp(5, 0, 10)).toBe(5);
+  });
+
+  it("clamps to the lower and upper bound", () => {
+    expect(clamp(-1, 0, 10)).toBe(0);
+    expect(clamp(15, 0, 10)).toBe(10);
+  });
+
+  it("handles equal bounds", () => {
+    expect(clamp(7, 7, 7)).toBe(7);
+  });
+});
+
+describe("mapTiltToTarget", () => {
+  it("maps a level device to the centre", () => {
+    const mid = mapTiltToTarget(0, 0, 1.6);
+    expect(mid.x).toBeCloseTo(50);
+    expect(mid.y).toBeCloseTo(50);
+  });
+
+  it("moves right and down within 80..90 at full tilt", () => {
+    expect(mapTiltToTarget(90, 0, 1.0).x).toBeGreaterThanOrEqual(80);
+    expect(mapTiltToTarget(90, 0, 1.0).x).toBeLessThanOrEqual(90);
+    expect(mapTiltToTarget(0, 90, 1.0).y).toBeGreaterThanOrEqual(80);
+    expect(mapTiltToTarget(0, 90, 1.0).y).toBeLessThanOrEqual(90);
+  });
+
+  it("clamps to 10 on the far side", () => {
+    const leftDown = mapTiltToTarget(-90, -90, 1.0);
+    expect(leftDown.x).toBeGreaterThanOrEqual(10);
+    expect(leftDown.x).toBeLessThanOrEqual(20);
+    expect(leftDown.y).toBeGreaterThanOrEqual(10);
+    expect(mapTiltToTarget(-180, 180, 3)).toEqual({ x: 10, y: 90 });
+  });
+});
+
+describe("tilt traces", () => {
+  const trace: TiltTrace = {
+    version: 1,
+    calibration: { neutralGamma: 0, neutralBeta: 40, sensitivity: 1.6 },
+    samples: [
+      { t: 0, source: "orientation", gamma: 0, beta: 40 },
+      { t: 16, source: "orientation", gamma: 22.5, beta: 40 },
+      { t: 32, source: "pointer", gamma: 0, beta: 0 },
+    ],
+  };
+
+  it("maps samples deterministically, applying the neutral offset to orientation only", () => {
+    expect(targetsForTrace(trace)).toEqual([
+      { x: 50, y: 50 },
+      { x: 70, y: 50 },
+      { x: 50, y: 50 },
+    ]);
+  });
+
+  it("can be re-mapped with a different calibration", () => {
+    const targets = targetsForTrace(trace, { ...DEFAULT_CALIBRATION, sensitivity: 0.8 });
+    expect(targets[1].x).toBeCloseTo(60);
+    expect(targets[0].y).toBeCloseTo(50 + (40 / 90) * 50 * 0.8);
+  });
+
+  it("round-trips through JSON", () => {
+    expect(parseTiltTrace(JSON.stringify(trace))).toEqual(trace);
+  });
+
+  it("rejects malformed traces", () => {
+    expect(() => parseTiltTrace("nope")).toThrow(/not JSON/);
+    expect(() => parseTiltTrace(JSON.stringify({ version: 2, samples: [] }))).toThrow(/version/);
+    expect(() =>
+      parseTiltTrace(JSON.stringify({ version: 1, samples: [{ t: 0, source: "gyro", gamma: 0, beta: 0 }] }))
+    ).toThrow(/sample 0/);
+  });
+
+  it("records pushed samples and replays them in order", async () => {
+    const seen: { x: number; y: number }[] = [];
+    const input = new TiltInput((target) => seen.push(target));
+    input.startRecording();
+    input.push("keyboard", 11.25, 0);
+    input.push("scripted", 0, 0);
+    const recorded = input.stopRecording();
+    expect(recorded.samples.map((s) => s.source)).toEqual(["keyboard"]);
+
+    seen.length = 0;
+    await input.replay(recorded, 100);
+    expect(seen).toEqual([{ x: 60, y: 50 }]);
+    input.dispose();
+  });
+});
+
+describe("TiltSync", () => {
+  it("passes each input's samples to the others, without echoing back", () => {
+    const sync = new TiltSync();
+    const a: { x: number; y: number }[] = [];
+    const b: { x: number; y: number }[] = [];
+    const first = new TiltInput((target) => a.push(target));
+    const second = new TiltInput((target) => b.push(target), { sensitivity: 0.8 });
+    first.link(sync);
+    const unlink = second.link(sync);
+
+    first.push("keyboard", 22.5, 0);
+    expect(a).toEqual([{ x: 70, y: 50 }]);
+    // Converted with the follower's own calibration
+    expect(b).toEqual([{ x: 60, y: 50 }]);
+
+    unlink();
+    first.push("keyboard", 0, 0);
+    expect(b).toHaveLength(1);
+    first.dispose();
+    second.dispose();
+  });
+});
@@ -0,0 +1,351 @@
+// ====== Unified tilt input: orientation, pointer, keyboard, scripted replay ======
+// Every source reports angles (gamma = left/right, beta = front/back, degrees).
+// Angles go through one calibration + `mapTiltToTarget`, so a trace recorded on
+// a phone replays on a desktop with exactly the same hologram targets.
+
+export const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+
+export function mapTiltToTarget(
+  gamma: number,
+  beta: number,
+  sensitivity = 1.6
+) {
+  // gamma ~ left/right (−90..90), beta ~ front/back (−180..180)
+  const x = clamp(50 + (gamma / 90) * 50 * sensitivity, 10, 90);
+  const y = clamp(50 + (beta / 90) * 50 * sensitivity, 10, 90);
+  return { x, y };
+}
+
+export type TiltSource = "orientation" | "pointer" | "keyboard" | "scripted";
+
+export interface TiltCalibration {
+  /** Device angles treated as "level", e.g. a phone held at 40° towards the face. */
+  neutralGamma: number;
+  neutralBeta: number;
+  sensitivity: number;
+}
+
+export const DEFAULT_CALIBRATION: TiltCalibration = { neutralGamma: 0, neutralBeta: 0, sensitivity: 1.6 };
+
+export interface TiltSample {
+  /** Milliseconds since recording started. */
+  t: number;
+  source: TiltSource;
+  gamma: number;
+  beta: number;
+}
+
+export interface TiltTrace {
+  version: 1;
+  calibration: TiltCalibration;
+  samples: TiltSample[];
+}
+
+export class TiltTraceError extends Error {
+  constructor(message: string) {
+    super("Invalid tilt trace: " + message);
+    this.name = "TiltTraceError";
+  }
+}
+
+// Pointer/keyboard angles span ±POINTER_RANGE so the default sensitivity maps a
+// pointer at the card edge to the same 10..90 range the mouse always had
+const POINTER_RANGE = 90 / DEFAULT_CALIBRATION.sensitivity;
+const KEY_STEP = 6;
+
+/** Hologram target (percent) for one sample. Only orientation uses the neutral offset. */
+export function sampleToTarget(sample: Pick<TiltSample, "source" | "gamma" | "beta">, calibration: TiltCalibration) {
+  const isDevice = sample.source === "orientation";
+  return mapTiltToTarget(
+    sample.gamma - (isDevice ? calibration.neutralGamma : 0),
+    sample.beta - (isDevice ? calibration.neutralBeta : 0),
+    calibration.sensitivity
+  );
+}
+
+/** Targets a trace produces, without timers or DOM — for tests and diffing traces. */
+export function targetsForTrace(trace: TiltTrace, calibration: TiltCalibration = trace.calibration) {
+  return trace.samples.map((s) => sampleToTarget(s, calibration));
+}
+
+export function parseTiltTrace(json: string): TiltTrace {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new TiltTraceError("not JSON");
+  }
+  const trace = raw as Partial<TiltTrace> | null;
+  if (!trace || trace.version !== 1) throw new TiltTraceError("unsupported version");
+  if (!Array.isArray(trace.samples)) throw new TiltTraceError("samples must be a list");
+  const sources: TiltSource[] = ["orientation", "pointer", "keyboard", "scripted"];
+  trace.samples.forEach((s, i) => {
+    if (
+      !s ||
+      typeof s.t !== "number" ||
+      typeof s.gamma !== "number" ||
+      typeof s.beta !== "number" ||
+      !sources.includes(s.source)
+    ) {
+      throw new TiltTraceError(`sample ${i} is malformed`);
+    }
+  });
+  return { version: 1, calibration: { ...DEFAULT_CALIBRATION, ...trace.calibration }, samples: trace.samples };
+}
+
+type TargetListener = (target: { x: number; y: number }, sample: TiltSample) => void;
+
+/**
+ * Shares samples between inputs, e.g. cards side by side in the preview: a
+ * sample from any member (live or replayed) reaches every other member's
+ * target, converted with that member's own calibration.
+ */
+export class TiltSync {
+  private members = new Set<TiltInput>();
+
+  /** Called by `TiltInput.link`; returns the leave function. */
+  join(input: TiltInput) {
+    this.members.add(input);
+    return () => {
+      this.members.delete(input);
+    };
+  }
+
+  publish(from: TiltInput, sample: TiltSample) {
+    this.members.forEach((member) => member !== from && member.receive(sample));
+  }
+}
+
+export class TiltInput {
+  private calibration: TiltCalibration;
+  private orientationActive = false;
+  private lastOrientation: { gamma: number; beta: number } | null = null;
+  private keyAngles = { gamma: 0, beta: 0 };
+  private drag: { pointerId: number; startX: number; startY: number } | null = null;
+  private recording: { startedAt: number; samples: TiltSample[] } | null = null;
+  private replayTimers: number[] = [];
+  private replayEnd: (() => void) | null = null;
+  private cleanups: (() => void)[] = [];
+  private sync: TiltSync | null = null;
+
+  constructor(private readonly onTarget: TargetListener, calibration: Partial<TiltCalibration> = {}) {
+    this.calibration = { ...DEFAULT_CALIBRATION, ...calibration };
+  }
+
+  get isRecording() {
+    return this.recording !== null;
+  }
+
+  get isReplaying() {
+    return this.replayTimers.length > 0;
+  }
+
+  get isOrientationActive() {
+    return this.orientationActive;
+  }
+
+  setCalibration(calibration: Partial<TiltCalibration>) {
+    this.calibration = { ...this.calibration, ...calibration };
+  }
+
+  getCalibration() {
+    return { ...this.calibration };
+  }
+
+  /** Treat the device's current attitude as level. Returns false before any orientation data. */
+  calibrateNeutral() {
+    if (!this.lastOrientation) return false;
+    this.setCalibration({ neutralGamma: this.lastOrientation.gamma, neutralBeta: this.lastOrientation.beta });
+    return true;
+  }
+
+  /** Single entry point for every source, including scripted input. */
+  push(source: TiltSource, gamma: number, beta: number) {
+    // Live input is ignored while a replay owns the hologram
+    if (this.isReplaying && source !== "scripted") return;
+    this.emit({ t: 0, source, gamma, beta });
+  }
+
+  private emit(sample: TiltSample) {
+    if (this.recording && sample.source !== "scripted") {
+      this.recording.samples.push({ ...sample, t: Math.round(performance.now() - this.recording.startedAt) });
+    }
+    this.deliver(sample);
+  }
+
+  private deliver(sample: TiltSample) {
+    this.onTarget(sampleToTarget(sample, this.calibration), sample);
+    this.sync?.publish(this, sample);
+  }
+
+  // ------- Sync -------
+  /** Follow and lead the other inputs in `sync`. Returns an unlink function. */
+  link(sync: TiltSync) {
+    this.sync = sync;
+    const leave = sync.join(this);
+    const unlink = () => {
+      leave();
+      if (this.sync === sync) this.sync = null;
+    };
+    this.cleanups.push(unlink);
+    return unlink;
+  }
+
+  /** A sample from another input in the same sync; not recorded or passed on. */
+  receive(sample: TiltSample) {
+    if (this.isReplaying) return;
+    this.onTarget(sampleToTarget(sample, this.calibration), sample);
+  }
+
+  // ------- Sources -------
+  /** Mouse hover, touch drag and arrow keys on `el`. Returns a detach function. */
+  attach(el: HTMLElement) {
+    const relative = (ev: PointerEvent) => {
+      const r = el.getBoundingClientRect();
+      return { x: (ev.clientX - r.left) / r.width - 0.5, y: (ev.clientY - r.top) / r.height - 0.5 };
+    };
+
+    const onPointerMove = (ev: PointerEvent) => {
+      if (this.orientationActive) return;
+      if (ev.pointerType === "mouse") {
+        const p = relative(ev);
+        this.push("pointer", p.x * 2 * POINTER_RANGE, p.y * 2 * POINTER_RANGE);
+      } else if (this.drag && this.drag.pointerId === ev.pointerId) {
+        const r = el.getBoundingClientRect();
+        const gamma = ((ev.clientX - this.drag.startX) / r.width) * 2 * POINTER_RANGE;
+        const beta = ((ev.clientY - this.drag.startY) / r.height) * 2 * POINTER_RANGE;
+        this.push("pointer", clamp(gamma, -POINTER_RANGE, POINTER_RANGE), clamp(beta, -POINTER_RANGE, POINTER_RANGE));
+      }
+    };
+    const onPointerDown = (ev: PointerEvent) => {
+      if (this.orientationActive || ev.pointerType === "mouse") return;
+      this.drag = { pointerId: ev.pointerId, startX: ev.clientX, startY: ev.clientY };
+    };
+    // Mouse settles back to level when it leaves; a touch drag when the finger lifts
+    const onPointerEnd = (ev: PointerEvent) => {
+      if (this.orientationActive) return;
+      if (ev.pointerType === "mouse") {
+        if (ev.type === "pointerleave") this.push("pointer", 0, 0);
+      } else if (this.drag?.pointerId === ev.pointerId) {
+        this.drag = null;
+        this.push("pointer", 0, 0);
+      }
+    };
+    const onKeyDown = (ev: KeyboardEvent) => {
+      const k = this.keyAngles;
+      switch (ev.key) {
+        case "ArrowLeft": k.gamma -= KEY_STEP; break;
+        case "ArrowRight": k.gamma += KEY_STEP; break;
+        case "ArrowUp": k.beta -= KEY_STEP; break;
+        case "ArrowDown": k.beta += KEY_STEP; break;
+        case "Home": k.gamma = 0; k.beta = 0; break;
+        default: return;
+      }
+      ev.preventDefault();
+      k.gamma = clamp(k.gamma, -POINTER_RANGE, POINTER_RANGE);
+      k.beta = clamp(k.beta, -POINTER_RANGE, POINTER_RANGE);
+      this.push("keyboard", k.gamma, k.beta);
+    };
+
+    el.addEventListener("pointermove", onPointerMove);
+    el.addEventListener("pointerdown", onPointerDown);
+    el.addEventListener("pointerup", onPointerEnd);
+    el.addEventListener("pointercancel", onPointerEnd);
+    el.addEventListener("pointerleave", onPointerEnd);
+    el.addEventListener("keydown", onKeyDown);
+    const detach = () => {
+      el.removeEventListener("pointermove", onPointerMove);
+      el.removeEventListener("pointerdown", onPointerDown);
+      el.removeEventListener("pointerup", onPointerEnd);
+      el.removeEventListener("pointercancel", onPointerEnd);
+      el.removeEventListener("pointerleave", onPointerEnd);
+      el.removeEventListener("keydown", onKeyDown);
+    };
+    this.cleanups.push(detach);
+    return detach;
+  }
+
+  /**
+   * Start listening to `deviceorientation`, asking for permission where the
+   * platform requires it (iOS). Must be called from a user gesture.
+   */
+  async enableOrientation() {
+    if (this.orientationActive) return true;
+    if (typeof DeviceOrientationEvent === "undefined") return false;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const requestPermission = (DeviceOrientationEvent as any).requestPermission;
+    if (typeof requestPermission === "function") {
+      try {
+        if ((await requestPermission()) !== "granted") return false;
+      } catch {
+        return false;
+      }
+    }
+    const onOrientation = (event: DeviceOrientationEvent) => {
+      const gamma = event.gamma ?? 0; // x tilt
+      const beta = event.beta ?? 0; // y tilt
+      this.lastOrientation = { gamma, beta };
+      this.push("orientation", gamma, beta);
+    };
+    window.addEventListener("deviceorientation", onOrientation, { passive: true });
+    this.orientationActive = true;
+    this.cleanups.push(() => {
+      window.removeEventListener("deviceorientation", onOrientation);
+      this.orientationActive = false;
+    });
+    return true;
+  }
+
+  // ------- Recording / replay -------
+  startRecording() {
+    this.recording = { startedAt: performance.now(), samples: [] };
+  }
+
+  stopRecording(): TiltTrace {
+    const samples = this.recording?.samples ?? [];
+    this.recording = null;
+    return { version: 1, calibration: this.getCalibration(), samples };
+  }
+
+  /**
+   * Play a trace back with its original timing (scaled by `speed`), using the
+   * trace's calibration. Resolves when the last sample is applied or on `stopReplay`.
+   */
+  replay(trace: TiltTrace, speed = 1) {
+    this.stopReplay();
+    const previous = this.calibration;
+    this.calibration = { ...trace.calibration };
+    return new Promise<void>((resolve) => {
+      this.replayEnd = () => {
+        this.replayTimers.forEach((t) => window.clearTimeout(t));
+        this.replayTimers = [];
+        this.replayEnd = null;
+        this.calibration = previous;
+        resolve();
+      };
+      if (!trace.samples.length) {
+        this.replayEnd();
+        return;
+      }
+      const t0 = trace.samples[0].t;
+      trace.samples.forEach((sample, i) => {
+        const timer = window.setTimeout(() => {
+          this.deliver({ ...sample });
+          if (i === trace.samples.length - 1) this.replayEnd?.();
+        }, (sample.t - t0) / speed);
+        this.replayTimers.push(timer);
+      });
+    });
+  }
+
+  stopReplay() {
+    this.replayEnd?.();
+  }
+
+  dispose() {
+    this.stopReplay();
+    this.cleanups.forEach((fn) => fn());
+    this.cleanups = [];
+  }
+}
@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+import { SAMPLE_LICENCES } from "./licence";
+import { parseRoute, routeHash, walletCredentials } from "./wallet";
+
+describe("wallet routes", () => {
+  it("parses card deep links and falls back to the wallet", () => {
+    expect(parseRoute("#/licence/driver")).toEqual({ screen: "card", id: "driver" });
+    expect(parseRoute("#/licence/Photo-Card/")).toEqual({ screen: "card", id: "photo-card" });
+    expect(parseRoute("")).toEqual({ screen: "wallet" });
+    expect(parseRoute("#/settings")).toEqual({ screen: "wallet" });
+  });
+
+  it("round-trips every wallet credential", () => {
+    for (const { id } of walletCredentials(SAMPLE_LICENCES.trevor)) {
+      expect(parseRoute(routeHash({ screen: "card", id }))).toEqual({ screen: "card", id });
+    }
+    expect(routeHash({ screen: "wallet" })).toBe("#/");
+  });
+});
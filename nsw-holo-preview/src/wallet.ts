@@ -0,0 +1,36 @@
+// ====== Wallet: the credentials on the device and hash routes to them (pure) ======
+// Routes live in the URL hash so deep links work from a static build served
+// from any sub-path (`base: './'`): the server only ever sees index.html.
+import { SAMPLE_LICENCES, type LicenceData } from "./licence";
+
+export interface WalletCredential {
+  /** Route slug, e.g. "driver" in `#/licence/driver`. */
+  id: string;
+  /** Name in the wallet list. */
+  label: string;
+  licence: LicenceData;
+}
+
+export type Route = { screen: "wallet" } | { screen: "card"; id: string };
+
+export const WALLET_ROUTE: Route = { screen: "wallet" };
+
+/** The preview's wallet; the driver licence is whichever sample record is picked. */
+export function walletCredentials(driver: LicenceData): WalletCredential[] {
+  return [
+    { id: "driver", label: "Driver Licence", licence: driver },
+    { id: "photo-card", label: "Photo Card", licence: SAMPLE_LICENCES.photoCard },
+    { id: "boat", label: "Boat Licence", licence: SAMPLE_LICENCES.boat },
+    { id: "rsa", label: "RSA Competency Card", licence: SAMPLE_LICENCES.rsa },
+  ];
+}
+
+/** Route for a location hash; anything unrecognised is the wallet. */
+export function parseRoute(hash: string): Route {
+  const m = hash.match(/^#?\/licence\/([a-z0-9-]+)\/?$/i);
+  return m ? { screen: "card", id: decodeURIComponent(m[1]).toLowerCase() } : WALLET_ROUTE;
+}
+
+export function routeHash(route: Route) {
+  return route.screen === "card" ? `#/licence/${encodeURIComponent(route.id)}` : "#/";
+}
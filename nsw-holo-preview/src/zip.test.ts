@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { crc32, createZip } from "./zip";
+
+const text = (s: string) => new TextEncoder().encode(s);
+
+describe("crc32", () => {
+  it("matches the standard check value", () => {
+    expect(crc32(text("123456789"))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+});
+
+describe("createZip", () => {
+  it("stores entries with a central directory that points back at them", () => {
+    const zip = createZip([
+      { name: "a.txt", data: text("hello") },
+      { name: "frame-001.png", data: text("not really a png") },
+    ]);
+    const view = new DataView(zip.buffer);
+    const eocd = zip.length - 22;
+    expect(view.getUint32(eocd, true)).toBe(0x06054b50);
+    expect(view.getUint16(eocd + 10, true)).toBe(2);
+
+    const central = view.getUint32(eocd + 16, true);
+    expect(view.getUint32(central, true)).toBe(0x02014b50);
+    const second = central + 46 + "a.txt".length;
+    const offset = view.getUint32(second + 42, true);
+    expect(view.getUint32(offset, true)).toBe(0x04034b50);
+    expect(view.getUint32(offset + 14, true)).toBe(crc32(text("not really a png")));
+    const nameLen = view.getUint16(offset + 26, true);
+    const dataStart = offset + 30 + nameLen;
+    expect(new TextDecoder().decode(zip.slice(dataStart, dataStart + 16))).toBe("not really a png");
+  });
+});
@@ -0,0 +1,108 @@
+// ====== Minimal ZIP writer (store only, no compression) ======
+// PNGs are already deflated, so storing them costs nothing and keeps this to
+// headers + CRC-32. Enough to hand a frame sequence over as one download.
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Uint8Array) {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS timestamp: 2-second resolution, years from 1980
+function dosDateTime(d: Date) {
+  const time = (d.getHours() << 11) | (d.getMinutes() << 5) | (d.getSeconds() >> 1);
+  const date = ((Math.max(1980, d.getFullYear()) - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate();
+  return { time, date };
+}
+
+const UTF8_NAMES = 0x0800;
+
+/** Build a ZIP archive holding `entries` uncompressed. */
+export function createZip(entries: ZipEntry[], modified = new Date()) {
+  const { time, date } = dosDateTime(modified);
+  const encoder = new TextEncoder();
+  const files = entries.map((e) => ({ name: encoder.encode(e.name), data: e.data, crc: crc32(e.data) }));
+
+  const localSize = files.reduce((n, f) => n + 30 + f.name.length + f.data.length, 0);
+  const centralSize = files.reduce((n, f) => n + 46 + f.name.length, 0);
+  const out = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(out.buffer);
+  let pos = 0;
+  const u16 = (v: number) => {
+    view.setUint16(pos, v, true);
+    pos += 2;
+  };
+  const u32 = (v: number) => {
+    view.setUint32(pos, v, true);
+    pos += 4;
+  };
+  const bytes = (b: Uint8Array) => {
+    out.set(b, pos);
+    pos += b.length;
+  };
+
+  const offsets: number[] = [];
+  for (const f of files) {
+    offsets.push(pos);
+    u32(0x04034b50);
+    u16(20); // version needed
+    u16(UTF8_NAMES);
+    u16(0); // stored
+    u16(time);
+    u16(date);
+    u32(f.crc);
+    u32(f.data.length);
+    u32(f.data.length);
+    u16(f.name.length);
+    u16(0); // extra field length
+    bytes(f.name);
+    bytes(f.data);
+  }
+
+  const centralStart = pos;
+  files.forEach((f, i) => {
+    u32(0x02014b50);
+    u16(20); // version made by
+    u16(20); // version needed
+    u16(UTF8_NAMES);
+    u16(0);
+    u16(time);
+    u16(date);
+    u32(f.crc);
+    u32(f.data.length);
+    u32(f.data.length);
+    u16(f.name.length);
+    u16(0); // extra
+    u16(0); // comment
+    u16(0); // disk
+    u16(0); // internal attributes
+    u32(0); // external attributes
+    u32(offsets[i]);
+    bytes(f.name);
+  });
+
+  u32(0x06054b50);
+  u16(0);
+  u16(0);
+  u16(files.length);
+  u16(files.length);
+  u32(pos - centralStart);
+  u32(centralStart);
+  u16(0); // comment length
+  return out;
+}
@@ -1,8 +1,52 @@
-import { defineConfig } from 'vite'
+/// <reference types="vitest" />
+import { createHash } from 'node:crypto'
+import { readFileSync, readdirSync } from 'node:fs'
+import { resolve } from 'node:path'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// Chunks left out of the precache and cached by the worker on first use: the
+// playground's TypeScript compiler is ~3.6 MB and most installs never open it
+const LAZY_CHUNKS = ['typescript']
+
+// Emits dist/sw.js from service-worker.js with every bundled file (bar
+// LAZY_CHUNKS) and public asset listed for precaching, so the preview opens
+// with no network at all. Paths come from the resolved config, so a build
+// started from another directory (`vite build nsw-holo-preview`) still works.
+function precacheServiceWorker(): Plugin {
+  let root = ''
+  let publicDir = ''
+  return {
+    name: 'precache-service-worker',
+    apply: 'build',
+    enforce: 'post',
+    configResolved(config) {
+      root = config.root
+      publicDir = config.publicDir
+    },
+    generateBundle(_options, bundle) {
+      const files = [
+        './',
+        ...Object.values(bundle)
+          .filter((f) => !(f.type === 'chunk' && LAZY_CHUNKS.includes(f.name)))
+          .map((f) => './' + f.fileName),
+        ...(publicDir ? readdirSync(publicDir) : []).map((f) => './' + f),
+      ].sort()
+      const version = createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 12)
+      const source = readFileSync(resolve(root, 'service-worker.js'), 'utf8')
+        .replace('__CACHE_VERSION__', version)
+        .replace('__PRECACHE_MANIFEST__', JSON.stringify(files, null, 2))
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source })
+    },
+  }
+}
+
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), precacheServiceWorker()],
   // Works on GitHub Pages / static hosting
-  base: './'
+  base: './',
+  test: {
+    environment: 'jsdom',
+    setupFiles: ['./src/test/setup.ts'],
+  },
 })